@@ -7,6 +7,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Web3Provider } from "@/contexts/Web3Context";
 import Index from "./pages/Index";
 import WalletPage from "./pages/WalletPage";
+import ReplayPage from "./pages/ReplayPage";
+import EditorPage from "./pages/EditorPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +22,8 @@ const App = () => (
         <Web3Provider>
           <Routes>
             <Route path="/wallet" element={<WalletPage />} />
+            <Route path="/replay" element={<ReplayPage />} />
+            <Route path="/editor" element={<EditorPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
             <Route path="/" element={<Index />} />
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CalendarDays, Dumbbell, History, Loader2, Timer, Trophy } from 'lucide-react';
+import {
+  DailyResult,
+  getDailyDate,
+  getDailyResult,
+  getTimeUntilNextDaily,
+  loadDailyHistory
+} from '@/game/DailyChallenge';
+
+interface DailyChallengePanelProps {
+  onPlayRanked: () => void;
+  onPractice: () => void;
+  disabled?: boolean;
+}
+
+// Format milliseconds as hh:mm:ss
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+export const DailyChallengePanel: React.FC<DailyChallengePanelProps> = ({
+  onPlayRanked,
+  onPractice,
+  disabled
+}) => {
+  const [now, setNow] = useState<number>(Date.now());
+  const [history, setHistory] = useState<DailyResult[]>(loadDailyHistory);
+
+  // Tick the countdown; crossing midnight UTC also unlocks the next challenge
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const today = getDailyDate(now);
+
+  useEffect(() => {
+    setHistory(loadDailyHistory());
+  }, [today]);
+
+  const todayResult = getDailyResult(today);
+  const pastResults = history.filter(result => result.date !== today).slice(0, 5);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="glassmorphism rounded-xl px-4 py-3 border border-[#91d3d1]/20 text-left">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center text-[#91d3d1]">
+            <CalendarDays className="mr-2 h-4 w-4" />
+            <span className="font-medium">Daily Challenge</span>
+          </div>
+          <span className="text-xs font-mono text-gray-400">{today}</span>
+        </div>
+        <div className="flex items-center justify-between mt-2 text-sm">
+          <div className="flex items-center text-gray-300">
+            <Timer className="mr-1 h-3.5 w-3.5" />
+            Next in <span className="ml-1 font-mono tabular-nums text-white">{formatCountdown(getTimeUntilNextDaily(now))}</span>
+          </div>
+          {todayResult && (
+            <div className="flex items-center text-gray-300">
+              <Trophy className="mr-1 h-3.5 w-3.5 text-yellow-400" />
+              <span className="font-mono text-white">{todayResult.score ?? '—'}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Button
+        onClick={onPlayRanked}
+        className="game-button w-full bg-gradient-to-r from-[#91d3d1] to-[#7ec7c5] hover:from-[#7ec7c5] hover:to-[#6abfbd] text-zinc-900 rounded-xl py-6 text-lg font-medium shadow-lg shadow-[#91d3d1]/20"
+        disabled={disabled || !!todayResult}
+      >
+        {disabled ? <Loader2 className="h-5 w-5 animate-spin" /> : todayResult ? 'Ranked Run Used' : 'Play Ranked Run'}
+      </Button>
+
+      <Button
+        onClick={onPractice}
+        variant="teal-outline"
+        className="w-full rounded-xl py-6 text-lg font-medium"
+        disabled={disabled}
+      >
+        <Dumbbell className="mr-2 h-5 w-5" />
+        Practice
+      </Button>
+
+      {pastResults.length > 0 && (
+        <div className="text-left">
+          <div className="flex items-center text-xs text-gray-400 mb-1">
+            <History className="mr-1 h-3 w-3" />
+            Past challenges
+          </div>
+          <div className="space-y-1">
+            {pastResults.map(result => (
+              <div key={result.date} className="flex justify-between text-xs bg-black/20 rounded-lg px-3 py-1.5">
+                <span className="font-mono text-gray-400">{result.date}</span>
+                <span className="font-mono font-bold">{result.score ?? '—'}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useWeb3 } from '@/contexts/Web3Context';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import {
+  CalendarDays,
+  Medal,
+  RefreshCw,
+  Trophy,
+  Clock,
+  Loader2
+} from 'lucide-react';
+import { Score } from './Leaderboard';
+import { getDailyDate, getDailySeed, getDailyStart } from '@/game/DailyChallenge';
+
+const MAX_ENTRIES = 10;
+
+// Best ranked score per player on today's daily challenge seed; other modes' scores are left out
+export const DailyLeaderboard: React.FC<{
+  className?: string;
+}> = ({ className }) => {
+  const { contract, wallet, getDailyScores } = useWeb3();
+  const [dailyScores, setDailyScores] = useState<Score[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const today = getDailyDate();
+
+  const fetchLeaderboard = async () => {
+    if (!contract) {
+      setError("Contract connection not available");
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsRefreshing(true);
+
+      const scores = await getDailyScores(getDailySeed(today), getDailyStart(today) / 1000);
+      const bestByPlayer = new Map<string, Score>();
+      scores.forEach(score => {
+        const key = score.player.toLowerCase();
+        const best = bestByPlayer.get(key);
+        if (!best || score.score > best.score) {
+          bestByPlayer.set(key, score);
+        }
+      });
+
+      setDailyScores(
+        Array.from(bestByPlayer.values())
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_ENTRIES)
+      );
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching daily leaderboard:", err);
+      setError("Failed to load daily scores");
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [contract, today]);
+
+  // Format timestamp to a readable time
+  const formatTime = (timestamp: number) => {
+    if (!timestamp) return 'N/A';
+    const date = new Date(timestamp * 1000);
+    return format(date, 'h:mm a');
+  };
+
+  // Shorten ethereum address for display
+  const shortenAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  const isCurrentUser = (address: string): boolean => {
+    if (!wallet.address) return false;
+    return address.toLowerCase() === wallet.address.toLowerCase();
+  };
+
+  return (
+    <div className={`w-full ${className}`}>
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center">
+          <CalendarDays className="w-5 h-5 text-[#91d3d1] mr-2" />
+          <h2 className="text-lg font-bold">Daily Challenge</h2>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={fetchLeaderboard}
+          disabled={isLoading || isRefreshing}
+          className="h-8 w-8 rounded-full"
+        >
+          {isRefreshing ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <Skeleton className="h-8 w-8 rounded-full" />
+              <div className="space-y-2 flex-1">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-3 w-24" />
+              </div>
+              <Skeleton className="h-6 w-16" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-4 text-gray-400">
+          <p>{error}</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchLeaderboard}
+            className="mt-3"
+          >
+            Try Again
+          </Button>
+        </div>
+      ) : dailyScores.length === 0 ? (
+        <div className="text-center py-4 text-gray-400">
+          <CalendarDays className="w-10 h-10 mx-auto mb-2 opacity-30" />
+          <p>No daily challenge scores yet. Set the pace!</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {dailyScores.map((score, index) => {
+              const isUser = isCurrentUser(score.player);
+
+              return (
+                <div
+                  key={score.player}
+                  className={`flex items-center p-2 rounded-lg transition-colors ${
+                    isUser ? 'bg-[#91d3d1]/20 border border-[#91d3d1]/30' : 'bg-black/20'
+                  }`}
+                >
+                  <div className="mr-3 flex-shrink-0">
+                    {index === 0 ? (
+                      <div className="w-7 h-7 flex items-center justify-center bg-yellow-400 text-zinc-900 rounded-full font-bold">
+                        <Trophy className="w-3.5 h-3.5" />
+                      </div>
+                    ) : index < 3 ? (
+                      <div className={`w-7 h-7 flex items-center justify-center ${index === 1 ? 'bg-gray-300' : 'bg-amber-600'} text-zinc-900 rounded-full font-bold`}>
+                        <Medal className="w-3.5 h-3.5" />
+                      </div>
+                    ) : (
+                      <div className="w-7 h-7 flex items-center justify-center bg-zinc-800 text-white rounded-full font-bold text-xs">
+                        {index + 1}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center">
+                      <span className="text-xs font-medium truncate">
+                        {shortenAddress(score.player)}
+                      </span>
+                      {isUser && (
+                        <span className="ml-1.5 text-[10px] bg-[#91d3d1]/30 text-[#91d3d1] px-1.5 py-0.5 rounded-full">
+                          You
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-gray-400 flex items-center mt-0.5">
+                      <Clock className="w-2.5 h-2.5 mr-1" />
+                      <span>{formatTime(score.timestamp)}</span>
+                    </div>
+                  </div>
+
+                  <div className="text-base font-mono font-bold tabular-nums">
+                    {score.score}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-3 pt-2 border-t border-zinc-800 text-[10px] text-gray-400 flex justify-between items-center">
+            <span>{today} UTC</span>
+            <span className="text-[#91d3d1]">{dailyScores.length} players today</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
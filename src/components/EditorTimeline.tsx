@@ -0,0 +1,259 @@
+import React, { useEffect, useRef } from 'react';
+import { ArrowLeft, ArrowRight, Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PowerUpType } from '@/game/GameTypes';
+import { DEFAULT_SEED_SPACING, PIXELS_PER_METRE, calculateLayout } from '@/game/GameSimulation';
+import { getEnemyArchetype } from '@/game/EnemyArchetypes';
+import { getHazardType } from '@/game/Hazards';
+import { StageDefinition } from '@/game/Stages';
+import { StageIssue, VALIDATION_DIMENSIONS } from '@/game/StageValidation';
+import { PowerUpIcon } from './PowerUpIcon';
+
+// Timeline pixels per metre of track, and the width of each lane column
+const SCALE = 2;
+const LANE_WIDTH = 48;
+const PADDING = 24; // Space below the start and above the finish line
+
+// Timeline position of a distance along the track, finish line at the top
+const distanceToY = (at: number, length: number) => PADDING + (length - at) * SCALE;
+
+// Lists of a stage the editor can place into
+export type EditorList = 'traffic' | 'seeds' | 'powerUps' | 'hazards';
+
+export interface EditorSelection {
+  list: EditorList;
+  index: number;
+}
+
+interface EditorTimelineProps {
+  stage: StageDefinition;
+  selection: EditorSelection | null;
+  previewFrom: number;
+  issues: StageIssue[];
+  focus: { at: number } | null; // Scrolled into view whenever a new one is passed
+  onPlace: (lane: number, at: number) => void;
+  onSelect: (selection: EditorSelection | null) => void;
+  onPreviewFromChange: (at: number) => void;
+}
+
+const ARCHETYPE_COLORS: Record<string, string> = {
+  car: '#60a5fa',
+  truck: '#a78bfa',
+  speeder: '#f87171',
+  'lane-changer': '#34d399',
+  roadblock: '#fbbf24',
+  crate: '#b45309',
+  police: '#1e3a8a'
+};
+
+const HAZARD_COLORS: Record<string, string> = {
+  oil: '#111827',
+  pothole: '#57534e',
+  construction: '#f97316'
+};
+
+export const EditorTimeline: React.FC<EditorTimelineProps> = ({
+  stage,
+  selection,
+  previewFrom,
+  issues,
+  focus,
+  onPlace,
+  onSelect,
+  onPreviewFromChange
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const height = stage.length * SCALE + PADDING * 2;
+
+  // Objects are drawn as long as they are on the play field stages are validated on
+  const metresPerLane = calculateLayout(VALIDATION_DIMENSIONS, stage.laneCount).laneWidth / PIXELS_PER_METRE;
+
+  const toY = (at: number) => distanceToY(at, stage.length);
+
+  const toDistance = (y: number) => {
+    const at = Math.round((stage.length - (y - PADDING) / SCALE) / 5) * 5;
+    return Math.min(Math.max(at, 0), stage.length - 1);
+  };
+
+  // Start at the bottom of the track
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    if (scroll) {
+      scroll.scrollTop = scroll.scrollHeight;
+    }
+  }, []);
+
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    if (scroll && focus) {
+      scroll.scrollTo({ top: distanceToY(focus.at, stage.length) - scroll.clientHeight / 2, behavior: 'smooth' });
+    }
+  }, [focus, stage.length]);
+
+  const handleLaneClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const lane = Math.floor((e.clientX - rect.left) / LANE_WIDTH);
+    if (lane < 0 || lane >= stage.laneCount) return;
+    onPlace(lane, toDistance(e.clientY - rect.top));
+  };
+
+  const handleRulerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPreviewFromChange(toDistance(e.clientY - rect.top));
+  };
+
+  // An object drawn from its placement up the track for the given length
+  const renderItem = (
+    list: EditorList,
+    index: number,
+    lane: number,
+    at: number,
+    length: number,
+    content: React.ReactNode,
+    className?: string,
+    style?: React.CSSProperties
+  ) => {
+    if (at >= stage.length || lane >= stage.laneCount) return null;
+    const selected = selection?.list === list && selection.index === index;
+    const itemHeight = Math.max(8, length * SCALE);
+
+    return (
+      <div
+        key={`${list}-${index}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect({ list, index });
+        }}
+        className={cn(
+          "absolute flex items-center justify-center rounded-sm cursor-pointer text-[10px] font-bold text-white overflow-hidden",
+          selected && "ring-2 ring-white z-10",
+          className
+        )}
+        style={{
+          left: lane * LANE_WIDTH + 4,
+          width: LANE_WIDTH - 8,
+          top: toY(at) - itemHeight,
+          height: itemHeight,
+          ...style
+        }}
+      >
+        {content}
+      </div>
+    );
+  };
+
+  const rows = Array.from({ length: Math.floor(stage.length / 50) + 1 }, (_, i) => i * 50);
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto rounded-xl bg-black/30 border border-[#91d3d1]/20">
+      <div className="relative flex" style={{ height }}>
+        <div
+          className="relative w-12 shrink-0 cursor-pointer border-r border-white/10"
+          onClick={handleRulerClick}
+          title="Click to preview from here"
+        >
+          {rows.map(at => (
+            <div
+              key={at}
+              className="absolute right-1 text-[10px] font-mono text-gray-500 -translate-y-1/2"
+              style={{ top: toY(at) }}
+            >
+              {at}m
+            </div>
+          ))}
+        </div>
+
+        <div
+          className="relative cursor-crosshair bg-[#333]"
+          style={{ width: stage.laneCount * LANE_WIDTH }}
+          onClick={handleLaneClick}
+        >
+          {rows.map(at => (
+            <div key={at} className="absolute inset-x-0 border-t border-white/5" style={{ top: toY(at) }} />
+          ))}
+          {Array.from({ length: stage.laneCount - 1 }, (_, lane) => (
+            <div
+              key={lane}
+              className="absolute inset-y-0 border-l-2 border-dashed border-white/30"
+              style={{ left: (lane + 1) * LANE_WIDTH }}
+            />
+          ))}
+
+          <div className="absolute inset-x-0 flex items-center justify-center h-5 bg-[repeating-conic-gradient(#fff_0_25%,#111_0_50%)] bg-[length:10px_10px]" style={{ top: PADDING - 20 }}>
+            <Flag className="h-3 w-3 text-[#91d3d1]" />
+          </div>
+
+          {(stage.hazards ?? []).map((hazard, index) => {
+            const type = getHazardType(hazard.kind);
+            return renderItem('hazards', index, hazard.lane, hazard.at, type.length * metresPerLane, null, undefined, {
+              backgroundColor: HAZARD_COLORS[hazard.kind],
+              opacity: 0.85,
+              backgroundImage: type.blocksLane
+                ? 'repeating-linear-gradient(45deg, transparent 0 6px, rgba(255,255,255,0.5) 6px 12px)'
+                : undefined
+            });
+          })}
+
+          {stage.seeds.map((line, index) => {
+            const count = line.count ?? 1;
+            const spacing = line.spacing ?? DEFAULT_SEED_SPACING;
+            return renderItem(
+              'seeds',
+              index,
+              line.lane,
+              line.at,
+              (count - 1) * spacing + 4,
+              <div className="flex flex-col-reverse items-center justify-between h-full py-0.5">
+                {Array.from({ length: count }, (_, seed) => (
+                  <div key={seed} className="w-2 h-2 rounded-full bg-[#91d3d1]" />
+                ))}
+              </div>
+            );
+          })}
+
+          {(stage.powerUps ?? []).map((powerUp, index) =>
+            renderItem(
+              'powerUps',
+              index,
+              powerUp.lane,
+              powerUp.at,
+              6,
+              <PowerUpIcon type={PowerUpType[powerUp.type]} size={12} />,
+              'bg-black/60'
+            )
+          )}
+
+          {stage.traffic.map((car, index) => {
+            const archetype = getEnemyArchetype(car.archetype);
+            const length = (metresPerLane * archetype.width) / archetype.aspectRatio;
+            const Turn = car.targetLane === undefined ? null : car.targetLane < car.lane ? ArrowLeft : ArrowRight;
+            return renderItem(
+              'traffic',
+              index,
+              car.lane,
+              car.at,
+              length,
+              Turn ? <Turn className="h-3 w-3" /> : archetype.id.charAt(0).toUpperCase(),
+              undefined,
+              { backgroundColor: ARCHETYPE_COLORS[archetype.id] ?? '#60a5fa' }
+            );
+          })}
+
+          {issues.filter(issue => issue.at !== null).map((issue, index) => (
+            <div
+              key={index}
+              className="absolute inset-x-0 h-0.5 bg-red-500 pointer-events-none"
+              style={{ top: toY(issue.at!) }}
+              title={issue.message}
+            />
+          ))}
+
+          <div
+            className="absolute inset-x-0 h-0.5 bg-[#91d3d1] pointer-events-none"
+            style={{ top: toY(previewFrom) }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,14 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { GameEngine, GameState, PowerUpType, GameMode } from '../game/GameEngine';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_MAX_PIXEL_RATIO, GameEngine, GameState, GameMode, NearMiss, ScoreBreakdown, ActivePowerUp, ScriptedEvent, StageRun, StageResult, WeatherKind } from '../game/GameEngine';
+import { PowerUpTone, getPowerUp, getPowerUps } from '@/game/PowerUps';
+import { POTHOLE_SEED_COST } from '@/game/Hazards';
+import { getScriptedEvent, getScriptedEvents } from '@/game/ScriptedEvents';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { 
   ChevronLeft, 
   ChevronRight, 
   Heart, 
-  Shield, 
-  Clock, 
   Trophy, 
   Loader2, 
   Pause, 
@@ -25,7 +26,28 @@ import {
   Car,
   Copy,
   Wallet,
-  ExternalLink
+  ExternalLink,
+  Film,
+  Download,
+  Ghost,
+  Upload,
+  CalendarDays,
+  Flame,
+  AlertTriangle,
+  Flag,
+  Star,
+  SkipForward,
+  Timer,
+  Skull,
+  Monitor,
+  Sun,
+  Moon,
+  CloudRain,
+  Snowflake,
+  TreePalm,
+  Repeat,
+  CloudFog,
+  Sunset
 } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { cn } from '@/lib/utils';
@@ -35,28 +57,71 @@ import { OnchainMode } from '@/components/OnchainMode';
 import { LeaderboardDialog } from './LeaderboardDialog';
 import CarSelectionDialog from './CarSelectionDialog';
 import { WalletInfoPanel } from './WalletInfoPanel';
-
-const DEFAULT_PLAYER_CAR = '/playercar.png';
-const DEFAULT_ENEMY_CARS = ['/enemycar1.png', '/enemycar2.png', '/enemycar3.png'];
-const SEED_IMAGE = '/seed.png';
+import { DEFAULT_PLAYER_CAR, DEFAULT_ENEMY_CARS, SEED_IMAGE } from '@/game/GameAssets';
+import { Switch } from '@/components/ui/switch';
+import { DailyChallengePanel } from './DailyChallengePanel';
+import { StageSelectPanel, StageStars } from './StageSelectPanel';
+import { PowerUpIcon } from './PowerUpIcon';
+import { finishRankedDaily, getDailyDate, getDailySeed, startRankedDaily } from '@/game/DailyChallenge';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, getDifficultyPreset } from '@/game/DifficultyCurve';
+import { decodeReplay, encodeReplay, tryDecodeReplay } from '@/game/Replay';
+import { STAGES, StageDefinition } from '@/game/Stages';
+import { StageProgress, isStageUnlocked, loadStageProgress, recordStageResult } from '@/game/StageProgress';
+import { ENDLESS_RULES, HARDCORE_RULES, PRACTICE_RULES, getModeRules } from '@/game/GameRules';
+import { SimulationTuning } from '@/game/GameSimulation';
+import { THEMES, THEME_MILESTONE, ThemeId, getTheme } from '@/game/Themes';
+import { getWeatherType } from '@/game/Weather';
+import { TuningPanel } from './TuningPanel';
+import { useNavigate } from 'react-router-dom';
 const CAR_SOUND = '/car.m4a';
 const CRASH_SOUND = '/crash.m4a';
 const SEED_SOUND = '/seed.m4a';
 const SLOW_TIMER_SOUND = '/5 sec.m4a';
 const BUTTON_SOUND = '/tap.mp3';
 
+// Render quality settings, as caps on the device pixel ratio
+const QUALITY_LEVELS = [1, 2, 3];
+const loadMaxPixelRatio = () => Number(localStorage.getItem('maxPixelRatio')) || DEFAULT_MAX_PIXEL_RATIO;
+
+const THEME_ICONS: Record<ThemeId, React.ElementType> = {
+  day: Sun,
+  dusk: Sunset,
+  night: Moon,
+  rain: CloudRain,
+  snow: Snowflake,
+  desert: TreePalm
+};
+
+const WEATHER_ICONS: Record<WeatherKind, React.ElementType> = {
+  clear: Sun,
+  rain: CloudRain,
+  fog: CloudFog,
+  snow: Snowflake
+};
+
+const WeatherIcon: React.FC<{ weather: WeatherKind; className?: string }> = ({ weather, className }) => {
+  const Icon = WEATHER_ICONS[weather];
+  return <Icon className={className} />;
+};
+
+// How long the HUD announces new weather for
+const WEATHER_NOTICE_TIME = 3000; // ms
+
+// A ghost only races runs on its own difficulty and weather, so each pairing keeps its own personal best
+const getBestReplayKey = (difficulty: string, weather: boolean) =>
+  `bestReplay:${difficulty}:${weather ? 'weather' : 'clear'}`;
+
 const Game: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameEngineRef = useRef<GameEngine | null>(null);
   const [gameState, setGameState] = useState<GameState>(GameState.MODE_SELECTION);
   const [score, setScore] = useState<number>(0);
   const [lives, setLives] = useState<number>(3);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [highScore, setHighScore] = useState<number>(0);
   const [isFirstTime, setIsFirstTime] = useState<boolean>(true);
-  const [activeSlowMode, setActiveSlowMode] = useState<boolean>(false);
-  const [activeShield, setActiveShield] = useState<boolean>(false);
-  const [slowModeTimer, setSlowModeTimer] = useState<number>(0);
-  const [shieldTimer, setShieldTimer] = useState<number>(0);
+  const [activePowerUps, setActivePowerUps] = useState<ActivePowerUp[]>([]);
+  const [scriptedEvent, setScriptedEvent] = useState<ScriptedEvent | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [gameInitialized, setGameInitialized] = useState(false);
   const [carAssetsLoaded, setCarAssetsLoaded] = useState(false);
@@ -69,6 +134,31 @@ const Game: React.FC = () => {
   const [isSoundEnabled, setIsSoundEnabled] = useState<boolean>(true);
   const [showLeaderboard, setShowLeaderboard] = useState<boolean>(false);
   const [showCarSelection, setShowCarSelection] = useState<boolean>(false);
+  const [lastRunSeed, setLastRunSeed] = useState<number | null>(null);
+  const [ghostEnabled, setGhostEnabled] = useState<boolean>(() => localStorage.getItem('ghostEnabled') === 'true');
+  const [ghostScore, setGhostScore] = useState<number | null>(null);
+  const ghostFileInputRef = useRef<HTMLInputElement>(null);
+  const [dailyRun, setDailyRun] = useState<{ date: string; ranked: boolean } | null>(null);
+  const dailyRunRef = useRef<{ date: string; ranked: boolean } | null>(null);
+  const [difficultyId, setDifficultyId] = useState<string>(() => getDifficultyPreset(localStorage.getItem('difficulty')).id);
+  const [lastRunDifficulty, setLastRunDifficulty] = useState<string | null>(null);
+  const [scoreBreakdown, setScoreBreakdown] = useState<ScoreBreakdown | null>(null);
+  const [comboMultiplier, setComboMultiplier] = useState<number>(1);
+  const [closeCalls, setCloseCalls] = useState<(NearMiss & { id: number })[]>([]);
+  const closeCallIdRef = useRef<number>(0);
+  const [showStageSelect, setShowStageSelect] = useState<boolean>(false);
+  const [activeStage, setActiveStage] = useState<StageDefinition | null>(null);
+  const activeStageRef = useRef<StageDefinition | null>(null);
+  const [stageRun, setStageRun] = useState<StageRun | null>(null);
+  const [stageResult, setStageResult] = useState<StageResult | null>(null);
+  const [stageProgress, setStageProgress] = useState<StageProgress>(loadStageProgress);
+  const [tuning, setTuning] = useState<SimulationTuning | null>(null);
+  const [maxPixelRatio, setMaxPixelRatio] = useState<number>(loadMaxPixelRatio);
+  const [themeId, setThemeId] = useState<ThemeId>(() => getTheme(localStorage.getItem('theme')).id);
+  const [themeCycle, setThemeCycle] = useState<boolean>(() => localStorage.getItem('themeCycle') === 'true');
+  const [weatherEnabled, setWeatherEnabled] = useState<boolean>(() => localStorage.getItem('weather') === 'true');
+  const [weatherKind, setWeatherKind] = useState<WeatherKind | null>(null);
+  const [weatherNotice, setWeatherNotice] = useState<WeatherKind | null>(null);
   
   const [selectedGameMode, setSelectedGameMode] = useState<GameMode>(GameMode.NONE);
   const [username, setUsername] = useState<string>('');
@@ -79,10 +169,12 @@ const Game: React.FC = () => {
   const crashSoundRef = useRef<HTMLAudioElement | null>(null);
   const seedSoundRef = useRef<HTMLAudioElement | null>(null);
   const slowTimerSoundRef = useRef<HTMLAudioElement | null>(null);
+  const toneContextRef = useRef<AudioContext | null>(null);
   const buttonSoundRef = useRef<HTMLAudioElement | null>(null);
   const soundsLoadedRef = useRef<boolean>(false);
   
   const isMobile = useIsMobile();
+  const navigate = useNavigate();
   
   useEffect(() => {
     const savedUsername = localStorage.getItem('username');
@@ -91,7 +183,14 @@ const Game: React.FC = () => {
     }
     
     const savedGameMode = localStorage.getItem('gameMode') as GameMode;
-    if (savedGameMode && savedGameMode === GameMode.ONCHAIN) {
+    if (
+      savedGameMode &&
+      (savedGameMode === GameMode.ONCHAIN ||
+        savedGameMode === GameMode.DAILY ||
+        savedGameMode === GameMode.TIME_ATTACK ||
+        savedGameMode === GameMode.HARDCORE ||
+        savedGameMode === GameMode.PRACTICE)
+    ) {
       setSelectedGameMode(savedGameMode);
     }
   }, []);
@@ -414,6 +513,36 @@ const Game: React.FC = () => {
     }
   };
 
+  // Synthesised power-up cue, one short note after another
+  const playToneCue = (tone: PowerUpTone) => {
+    if (!isSoundEnabled) return;
+    
+    try {
+      if (!toneContextRef.current) {
+        toneContextRef.current = new AudioContext();
+      }
+      
+      const audio = toneContextRef.current;
+      const noteLength = 0.08;
+      tone.notes.forEach((frequency, i) => {
+        const start = audio.currentTime + i * noteLength;
+        const oscillator = audio.createOscillator();
+        const gain = audio.createGain();
+        
+        oscillator.type = tone.wave;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.15, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + noteLength);
+        
+        oscillator.connect(gain).connect(audio.destination);
+        oscillator.start(start);
+        oscillator.stop(start + noteLength);
+      });
+    } catch (err) {
+      console.error("Could not play power-up cue:", err);
+    }
+  };
+
   const playButtonSound = () => {
     if (!isSoundEnabled || !buttonSoundRef.current) return;
     
@@ -526,12 +655,14 @@ const Game: React.FC = () => {
         ? Math.min(800, window.innerHeight - 100) 
         : window.innerHeight - 100;
       
-      canvasRef.current.width = width;
-      canvasRef.current.height = height;
       setCanvasSize({ width, height });
       
+      // The engine scales the backing store for the display; before it exists the size is handed over on the canvas
       if (gameEngineRef.current) {
-        gameEngineRef.current.resizeCanvas();
+        gameEngineRef.current.resizeCanvas(width, height);
+      } else {
+        canvasRef.current.width = width;
+        canvasRef.current.height = height;
       }
     };
     
@@ -550,55 +681,117 @@ const Game: React.FC = () => {
         canvas: canvasRef.current,
         onScoreChange: (newScore) => setScore(newScore),
         onLivesChange: (newLives) => setLives(newLives),
+        onTimeLeftChange: (newTimeLeft) => setTimeLeft(newTimeLeft),
         onGameStateChange: (newState) => setGameState(newState),
         onPowerUpStart: (type, duration) => {
-          switch (type) {
-            case PowerUpType.SLOW_SPEED:
-              setActiveSlowMode(true);
-              setSlowModeTimer(duration);
-              playSlowTimerSound();
-              toast.success('SLOW MODE ACTIVATED', {
-                description: 'Traffic speed reduced',
-                icon: <Clock className="h-5 w-5 text-blue-500" />,
-              });
-              break;
-            case PowerUpType.SHIELD:
-              setActiveShield(true);
-              setShieldTimer(duration);
-              playPickupSound();
-              toast.success('SHIELD ACTIVATED', {
-                description: 'Invulnerable for 3s',
-                icon: <Shield className="h-5 w-5 text-cyan-500" />,
-              });
-              break;
-            case PowerUpType.EXTRA_LIFE:
-              playPickupSound();
-              toast.success('EXTRA LIFE', {
-                icon: <Heart className="h-5 w-5 text-red-500" />,
-              });
-              break;
+          const definition = getPowerUp(type);
+          if (!definition) return;
+
+          if (definition.hud.sound === 'slowTimer') {
+            playSlowTimerSound();
+          } else if (definition.hud.sound === 'pickup') {
+            playPickupSound();
+          } else {
+            playToneCue(definition.hud.sound);
           }
+
+          toast.success(definition.hud.label, {
+            description: definition.hud.description,
+            icon: <PowerUpIcon type={type} size={20} />,
+          });
         },
         onPowerUpEnd: (type) => {
-          switch (type) {
-            case PowerUpType.SLOW_SPEED:
-              setActiveSlowMode(false);
-              setSlowModeTimer(0);
-              toast.info('SLOW MODE ENDED');
-              break;
-            case PowerUpType.SHIELD:
-              setActiveShield(false);
-              setShieldTimer(0);
-              toast.info('SHIELD DEACTIVATED');
-              break;
+          const endLabel = getPowerUp(type)?.hud.endLabel;
+          if (endLabel) {
+            toast.info(endLabel);
           }
         },
+        onActivePowerUpsChange: (active) => setActivePowerUps(active),
+        onPowerUpOverflow: (type, points) => {
+          playPickupSound();
+          toast.success(`+${points} POINTS`, {
+            description: `${getPowerUp(type)?.hud.name} is already maxed out`,
+            icon: <PowerUpIcon type={type} size={20} />,
+          });
+        },
+        onHazardHit: (kind) => {
+          if (kind === 'oil') {
+            playToneCue({ notes: [330, 294, 262], wave: 'sine' });
+            toast.warning('OIL SLICK', { description: 'Your next lane change is out of your hands' });
+          } else if (kind === 'pothole') {
+            playToneCue({ notes: [110, 82], wave: 'square' });
+            toast.warning('POTHOLE', { description: `Lost up to ${POTHOLE_SEED_COST} seeds and your combo` });
+          }
+        },
+        onScriptedEventChange: (event) => {
+          setScriptedEvent(event);
+          if (event?.phase === 'warning') {
+            const definition = getScriptedEvent(event.id);
+            if (definition) {
+              playToneCue(definition.hud.sound);
+            }
+          }
+        },
+        onScriptedEventEnd: (id, reward) => {
+          playPickupSound();
+          toast.success(`${getScriptedEvent(id)?.hud.name.toUpperCase()} SURVIVED`, {
+            description: `+${reward} points`,
+          });
+        },
+        onStageProgress: (stage) => setStageRun(stage),
+        onWeatherChange: (weather) => {
+          setWeatherKind(weather);
+          setWeatherNotice(weather);
+        },
+        onThemeChange: (theme) => {
+          toast.info(getTheme(theme).name.toUpperCase(), { description: 'The scenery changes' });
+        },
         onCollision: () => {
           playCollisionSound();
         },
         onSeedCollect: () => {
           playPickupSound();
         },
+        onComboChange: (_streak, multiplier) => setComboMultiplier(multiplier),
+        onScoreBreakdown: (breakdown) => setScoreBreakdown(breakdown),
+        onNearMiss: (nearMiss) => {
+          // Float a label for a moment, then drop it
+          const id = ++closeCallIdRef.current;
+          setCloseCalls(prev => [...prev, { ...nearMiss, id }]);
+          setTimeout(() => setCloseCalls(prev => prev.filter(call => call.id !== id)), 900);
+        },
+        onGameOver: (result) => {
+          setLastRunSeed(result.seed);
+          setLastRunDifficulty(result.difficulty);
+          
+          const daily = dailyRunRef.current;
+          if (daily?.ranked) {
+            finishRankedDaily(daily.date, result.score);
+          }
+          
+          // Stage scores and stars are kept per stage rather than in the high score
+          setStageResult(result.stage ?? null);
+          if (result.stage) {
+            setStageProgress(recordStageResult(result.stage, result.score));
+          }
+          
+          const replay = gameEngineRef.current?.getLastReplay();
+          if (replay) {
+            const encoded = encodeReplay(replay);
+            localStorage.setItem('lastReplay', encoded);
+            
+            // Keep the personal-best endless run around for ghost racing
+            const bestKey = getBestReplayKey(replay.difficulty.id, replay.weather);
+            const best = tryDecodeReplay(localStorage.getItem(bestKey));
+            if (!replay.stage && replay.rules === ENDLESS_RULES.id && (!best || replay.score > best.score)) {
+              localStorage.setItem(bestKey, encoded);
+            }
+          }
+        },
+        onGhostScoreChange: (newScore) => setGhostScore(newScore),
+        maxPixelRatio: loadMaxPixelRatio(),
+        theme: getTheme(localStorage.getItem('theme')).id,
+        themeCycle: localStorage.getItem('themeCycle') === 'true',
         customAssets: {
           playerCarURL,
           enemyCarURLs,
@@ -623,33 +816,116 @@ const Game: React.FC = () => {
       window.removeEventListener('resize', resizeCanvas);
       if (gameEngineRef.current) {
         gameEngineRef.current.cleanup();
+        gameEngineRef.current = null;
       }
     };
   }, [carAssetsLoaded, playerCarURL, enemyCarURLs, seedImageURL, loadingError]);
   
   useEffect(() => {
-    if (slowModeTimer > 0) {
+    if (activePowerUps.length > 0) {
       const interval = setInterval(() => {
-        setSlowModeTimer((prev) => Math.max(0, prev - 100));
+        setActivePowerUps((prev) =>
+          prev.map((active) => ({ ...active, remaining: Math.max(0, active.remaining - 100) }))
+        );
       }, 100);
       return () => clearInterval(interval);
     }
-  }, [slowModeTimer]);
+  }, [activePowerUps.length]);
   
+  // Run the boss timer bar between phase changes
+  const scriptedEventPhase = scriptedEvent?.phase;
   useEffect(() => {
-    if (shieldTimer > 0) {
+    if (scriptedEventPhase) {
       const interval = setInterval(() => {
-        setShieldTimer((prev) => Math.max(0, prev - 100));
+        setScriptedEvent((prev) =>
+          prev && { ...prev, elapsed: Math.min(prev.duration, prev.elapsed + 100) }
+        );
       }, 100);
       return () => clearInterval(interval);
     }
-  }, [shieldTimer]);
+  }, [scriptedEventPhase]);
+  
+  // Let the weather announcement stand for a moment, then clear it
+  useEffect(() => {
+    if (!weatherNotice) return;
+    
+    const timeout = setTimeout(() => setWeatherNotice(null), WEATHER_NOTICE_TIME);
+    return () => clearTimeout(timeout);
+  }, [weatherNotice]);
+  
+  // Each mode keeps its own high score for each difficulty; daily runs are all played on the same curve
+  const modeRules = getModeRules(selectedGameMode);
+  const isDaily = selectedGameMode === GameMode.DAILY;
+  const runDifficulty = getDifficultyPreset(isDaily ? DEFAULT_DIFFICULTY : difficultyId);
+  useEffect(() => {
+    if (gameInitialized && gameEngineRef.current) {
+      gameEngineRef.current.setRules(modeRules);
+      gameEngineRef.current.setDifficulty(runDifficulty);
+      setHighScore(gameEngineRef.current.getHighScore());
+    }
+  }, [modeRules, runDifficulty, gameInitialized]);
+  
+  // The contract keeps nothing but the score, so only Normal endless runs go on chain to compare like for like
+  const canSubmitScore = !stageResult && modeRules === ENDLESS_RULES && lastRunDifficulty === DEFAULT_DIFFICULTY;
+  
+  // Hand the engine the rules, difficulty and the run to race before a start
+  const applyRunSettings = () => {
+    if (!gameEngineRef.current) return;
+    
+    setScoreBreakdown(null);
+    setActivePowerUps([]);
+    setScriptedEvent(null);
+    setStageRun(null);
+    setTimeLeft(null);
+    setWeatherKind(null);
+    setWeatherNotice(null);
+    
+    gameEngineRef.current.setRules(modeRules);
+    
+    // Live tuning carries over between practice runs and never leaks into other modes
+    gameEngineRef.current.setTuning(modeRules === PRACTICE_RULES ? tuning : null);
+    
+    // Daily runs are all played on the same seed and curve, so ghosts can't join
+    gameEngineRef.current.setDifficulty(runDifficulty);
+    gameEngineRef.current.setWeather(weatherEnabled && !isDaily);
+    
+    // An imported ghost wins over the personal best, which races instead when the import doesn't suit the run
+    const ghosts = ghostEnabled && !isDaily
+      ? [
+          tryDecodeReplay(localStorage.getItem('ghostReplay')),
+          tryDecodeReplay(localStorage.getItem(getBestReplayKey(runDifficulty.id, weatherEnabled)))
+        ].filter(Boolean)
+      : [];
+    gameEngineRef.current.setGhostReplays(ghosts);
+  };
+  
+  // Track whether the next run is a daily one; returns the seed to play it on
+  const prepareDailyRun = (ranked: boolean): number | undefined => {
+    const run = selectedGameMode === GameMode.DAILY ? { date: getDailyDate(), ranked } : null;
+    dailyRunRef.current = run;
+    setDailyRun(run);
+    
+    if (!run) return undefined;
+    if (ranked) {
+      startRankedDaily(run.date, runDifficulty.id);
+    }
+    return getDailySeed(run.date);
+  };
+  
+  // Campaign stage for the next runs; null plays the endless road
+  const selectStage = (stage: StageDefinition | null) => {
+    activeStageRef.current = stage;
+    setActiveStage(stage);
+    gameEngineRef.current?.setStage(stage);
+  };
   
   const handleStartGame = () => {
     playButtonSound();
     console.log("Start game clicked, gameEngine exists:", !!gameEngineRef.current);
     if (gameEngineRef.current) {
-      gameEngineRef.current.startGame();
+      selectStage(null);
+      applyRunSettings();
+      gameEngineRef.current.startGame(prepareDailyRun(false));
       toast.success('GAME STARTED', {
         description: 'Use arrows to move'
       });
@@ -659,6 +935,37 @@ const Game: React.FC = () => {
     }
   };
   
+  const handleStartDaily = (ranked: boolean) => {
+    playButtonSound();
+    if (!gameEngineRef.current) return;
+    
+    selectStage(null);
+    applyRunSettings();
+    gameEngineRef.current.startGame(prepareDailyRun(ranked));
+    toast.success(ranked ? 'DAILY CHALLENGE' : 'DAILY PRACTICE', {
+      description: ranked ? 'One shot - make it count' : 'Practice runs are not ranked'
+    });
+  };
+  
+  const handleStartStage = (stage: StageDefinition) => {
+    playButtonSound();
+    if (!gameEngineRef.current) return;
+    
+    setShowStageSelect(false);
+    selectStage(stage);
+    applyRunSettings();
+    gameEngineRef.current.startGame(prepareDailyRun(false));
+    toast.success(stage.name.toUpperCase(), {
+      description: `Reach the finish line ${stage.length}m ahead`
+    });
+  };
+  
+  const handleShowStageSelect = () => {
+    playButtonSound();
+    setStageProgress(loadStageProgress());
+    setShowStageSelect(true);
+  };
+  
   const handleModeSelection = (mode: GameMode) => {
     playButtonSound();
     setSelectedGameMode(mode);
@@ -722,10 +1029,18 @@ const Game: React.FC = () => {
     playButtonSound();
     if (gameEngineRef.current) {
       setHighScore(gameEngineRef.current.getHighScore());
-      gameEngineRef.current.startGame();
+      applyRunSettings();
+      gameEngineRef.current.startGame(prepareDailyRun(false));
     }
   };
   
+  const getFrameStats = useCallback(() => gameEngineRef.current?.getFrameStats() ?? null, []);
+  
+  const handleTuningChange = (next: SimulationTuning | null) => {
+    setTuning(next);
+    gameEngineRef.current?.setTuning(next);
+  };
+  
   const handleTouchLeft = () => {
     if (gameEngineRef.current && gameState === GameState.GAMEPLAY) {
       gameEngineRef.current.handleTouchLeft();
@@ -756,7 +1071,8 @@ const Game: React.FC = () => {
     playButtonSound();
     if (gameEngineRef.current) {
       setHighScore(gameEngineRef.current.getHighScore());
-      gameEngineRef.current.restartGame();
+      applyRunSettings();
+      gameEngineRef.current.restartGame(prepareDailyRun(false));
     }
   };
   
@@ -768,6 +1084,95 @@ const Game: React.FC = () => {
     }
   };
   
+  const handleWatchReplay = () => {
+    playButtonSound();
+    stopAllSounds();
+    navigate('/replay');
+  };
+  
+  const handleDownloadReplay = () => {
+    playButtonSound();
+    const replay = gameEngineRef.current?.getLastReplay();
+    if (!replay) {
+      toast.error('No replay available');
+      return;
+    }
+    
+    const blob = new Blob([encodeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lane-runner-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const handleCycleQuality = () => {
+    playButtonSound();
+    const next = QUALITY_LEVELS[(QUALITY_LEVELS.indexOf(maxPixelRatio) + 1) % QUALITY_LEVELS.length];
+    setMaxPixelRatio(next);
+    localStorage.setItem('maxPixelRatio', next.toString());
+    gameEngineRef.current?.setMaxPixelRatio(next);
+  };
+  
+  const handleSelectTheme = (id: ThemeId) => {
+    playButtonSound();
+    setThemeId(id);
+    localStorage.setItem('theme', id);
+    gameEngineRef.current?.setTheme(id, themeCycle);
+  };
+  
+  const handleToggleThemeCycle = (enabled: boolean) => {
+    playButtonSound();
+    setThemeCycle(enabled);
+    localStorage.setItem('themeCycle', enabled.toString());
+    gameEngineRef.current?.setTheme(themeId, enabled);
+  };
+  
+  const handleSelectDifficulty = (id: string) => {
+    playButtonSound();
+    setDifficultyId(id);
+    localStorage.setItem('difficulty', id);
+  };
+  
+  const handleToggleWeather = (enabled: boolean) => {
+    playButtonSound();
+    setWeatherEnabled(enabled);
+    localStorage.setItem('weather', enabled.toString());
+  };
+  
+  const handleToggleGhost = (enabled: boolean) => {
+    playButtonSound();
+    setGhostEnabled(enabled);
+    localStorage.setItem('ghostEnabled', enabled.toString());
+    
+    const bestKey = getBestReplayKey(runDifficulty.id, weatherEnabled);
+    if (enabled && !localStorage.getItem('ghostReplay') && !localStorage.getItem(bestKey)) {
+      toast.info('No ghost yet', {
+        description: 'Finish a run or import a replay to race against'
+      });
+    }
+  };
+  
+  const handleImportGhost = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const replay = decodeReplay(await file.text());
+      localStorage.setItem('ghostReplay', encodeReplay(replay));
+      setGhostEnabled(true);
+      localStorage.setItem('ghostEnabled', 'true');
+      toast.success('Ghost loaded', {
+        description: `Score ${replay.score} on seed ${replay.seed}`
+      });
+    } catch (err) {
+      console.error("Error importing ghost:", err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load ghost');
+    }
+  };
+  
   const handleCopyAddress = () => {
     if (wallet.address) {
       navigator.clipboard.writeText(wallet.address);
@@ -779,6 +1184,12 @@ const Game: React.FC = () => {
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
   };
   
+  // Stage after the one just cleared, if the campaign goes on
+  const stageIndex = stageResult ? STAGES.findIndex(stage => stage.id === stageResult.id) : -1;
+  const nextStage = stageResult?.finished && isStageUnlocked(stageIndex + 1, stageProgress)
+    ? STAGES[stageIndex + 1] ?? null
+    : null;
+  
   const howToPlayContent = [
     {
       title: "Basic Controls",
@@ -846,36 +1257,69 @@ const Game: React.FC = () => {
           <h3 className="text-lg font-medium mb-2">Special Power-Ups:</h3>
           
           <div className="space-y-4 mt-2">
-            <div className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
-              <div className="bg-[#9b87f5] rounded-full p-2">
-                <Clock className="h-5 w-5 text-white" />
-              </div>
-              <div>
-                <div className="font-medium">Slow Mode</div>
-                <div className="text-sm text-gray-300">Slows down all traffic for 5 seconds</div>
-              </div>
-            </div>
-            
-            <div className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
-              <div className="bg-[#4cc9f0] rounded-full p-2">
-                <Shield className="h-5 w-5 text-white" />
-              </div>
-              <div>
-                <div className="font-medium">Shield</div>
-                <div className="text-sm text-gray-300">Makes you invulnerable for 3 seconds</div>
+            {getPowerUps().map((definition) => (
+              <div key={definition.type} className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
+                <div className="rounded-full p-2" style={{ backgroundColor: definition.color }}>
+                  <PowerUpIcon type={definition.type} size={20} color="#ffffff" />
+                </div>
+                <div>
+                  <div className="font-medium">{definition.hud.name}</div>
+                  <div className="text-sm text-gray-300">{definition.hud.help}</div>
+                </div>
               </div>
-            </div>
-            
-            <div className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
-              <div className="bg-[#ff5e5e] rounded-full p-2">
-                <Heart className="h-5 w-5 text-white" />
+            ))}
+          </div>
+        </div>
+      )
+    },
+    {
+      title: "Boss Encounters",
+      content: (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium mb-2">Survive the Bosses:</h3>
+          <p className="text-sm text-gray-300">
+            Every few kilometres a warning sounds and a boss takes over the road. Normal traffic stops while it is around, so just keep clear of what it throws at you until its timer runs out.
+          </p>
+          
+          <div className="space-y-4 mt-2">
+            {getScriptedEvents().map((definition) => (
+              <div key={definition.id} className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
+                <div className="rounded-full p-2" style={{ backgroundColor: definition.hud.color }}>
+                  <AlertTriangle className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <div className="font-medium">{definition.hud.name} <span className="text-xs text-gray-400">+{definition.reward}</span></div>
+                  <div className="text-sm text-gray-300">{definition.hud.help}</div>
+                </div>
               </div>
-              <div>
-                <div className="font-medium">Extra Life</div>
-                <div className="text-sm text-gray-300">Gives you an additional life</div>
+            ))}
+          </div>
+        </div>
+      )
+    },
+    {
+      title: "Campaign",
+      content: (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium mb-2">Race the Stages:</h3>
+          <p className="text-sm text-gray-300">
+            Campaign stages are fixed tracks with a finish line. Every run of a stage has the same traffic, so learn the road and go for all three stars.
+          </p>
+          
+          <div className="space-y-2 mt-2">
+            {[
+              'Reach the finish line',
+              'Collect the target number of seeds',
+              'Finish with no more hits than the stage allows'
+            ].map((goal) => (
+              <div key={goal} className="p-3 bg-black/20 rounded-lg flex items-center space-x-3">
+                <Star className="w-5 h-5 text-yellow-400 fill-yellow-400" />
+                <span className="text-sm text-gray-300">{goal}</span>
               </div>
-            </div>
+            ))}
           </div>
+          
+          <p className="text-sm text-gray-300">Earn at least one star on a stage to unlock the next.</p>
         </div>
       )
     },
@@ -934,30 +1378,59 @@ const Game: React.FC = () => {
           <WalletInfoPanel wallet={wallet} refreshBalance={refreshBalance} />
         )}
         
+        {gameState === GameState.GAMEPLAY && closeCalls.length > 0 && (
+          <div className="absolute inset-x-0 bottom-1/3 flex flex-col items-center pointer-events-none z-10">
+            {closeCalls.map((call) => (
+              <div key={call.id} className="animate-float-up text-center">
+                <div className="hud-text text-lg font-bold text-yellow-300 tracking-wider">CLOSE CALL</div>
+                <div className="text-sm font-medium text-white">+{call.bonus}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        
         {gameState === GameState.GAMEPLAY && (
           <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-10">
             <div className="flex items-center space-x-2 glassmorphism px-3 py-1 rounded-full">
-              {Array.from({ length: lives }).map((_, i) => (
-                <Heart key={i} className="w-5 h-5 text-red-500 fill-red-500" />
-              ))}
+              {timeLeft !== null ? (
+                <div className={cn(
+                  "flex items-center hud-text text-lg font-medium tabular-nums",
+                  timeLeft <= 10000 && "text-red-400 animate-pulse"
+                )}>
+                  <Timer className="w-5 h-5 mr-1" />
+                  {Math.floor(Math.ceil(timeLeft / 1000) / 60)}:{String(Math.ceil(timeLeft / 1000) % 60).padStart(2, '0')}
+                </div>
+              ) : (
+                Array.from({ length: lives }).map((_, i) => (
+                  <Heart key={i} className="w-5 h-5 text-red-500 fill-red-500" />
+                ))
+              )}
             </div>
             
-            <div className="glassmorphism px-4 py-1 rounded-full">
+            <div className="glassmorphism px-4 py-1 rounded-full flex items-center space-x-2">
               <div className="hud-text text-xl font-medium">{score}</div>
+              {ghostScore !== null && (
+                <div className={cn(
+                  "flex items-center text-xs font-mono",
+                  score >= ghostScore ? "text-[#91d3d1]" : "text-red-400"
+                )}>
+                  <Ghost className="w-3 h-3 mr-1" />
+                  {score >= ghostScore ? '+' : ''}{score - ghostScore}
+                </div>
+              )}
             </div>
             
             <div className="flex items-center space-x-2">
-              {activeSlowMode && (
-                <div className="flex items-center space-x-1 glassmorphism px-3 py-1 rounded-full">
-                  <Clock className="w-4 h-4 text-[#a170fc]" />
-                  <span className="text-sm font-medium">{Math.ceil(slowModeTimer / 1000)}s</span>
+              {weatherKind && weatherKind !== 'clear' && (
+                <div className="flex items-center glassmorphism px-2 py-1 rounded-full" title={getWeatherType(weatherKind).name}>
+                  <WeatherIcon weather={weatherKind} className="w-4 h-4 text-[#91d3d1]" />
                 </div>
               )}
               
-              {activeShield && (
+              {comboMultiplier > 1 && (
                 <div className="flex items-center space-x-1 glassmorphism px-3 py-1 rounded-full">
-                  <Shield className="w-4 h-4 text-[#64d2ff]" />
-                  <span className="text-sm font-medium">{Math.ceil(shieldTimer / 1000)}s</span>
+                  <Flame className="w-4 h-4 text-orange-400" />
+                  <span className="text-sm font-medium">x{comboMultiplier}</span>
                 </div>
               )}
               
@@ -984,6 +1457,121 @@ const Game: React.FC = () => {
           </div>
         )}
         
+        {gameState === GameState.GAMEPLAY && weatherNotice && (
+          <div className="absolute inset-x-0 top-1/3 flex justify-center pointer-events-none z-10">
+            <div className="glassmorphism rounded-xl px-5 py-2 text-center border border-[#91d3d1]/30 animate-fade-in">
+              <div className="flex items-center justify-center space-x-2 hud-text text-lg font-bold tracking-widest text-[#91d3d1]">
+                <WeatherIcon weather={weatherNotice} className="w-5 h-5" />
+                <span>{getWeatherType(weatherNotice).name.toUpperCase()}</span>
+              </div>
+              <div className="text-sm text-white">{getWeatherType(weatherNotice).description}</div>
+            </div>
+          </div>
+        )}
+        
+        {gameState === GameState.GAMEPLAY && scriptedEvent?.phase === 'warning' && (
+          <div className="absolute inset-x-0 top-1/4 flex justify-center pointer-events-none z-10">
+            <div
+              className="glassmorphism rounded-xl px-5 py-3 text-center border-2 animate-pulse"
+              style={{ borderColor: getScriptedEvent(scriptedEvent.id)?.hud.color }}
+            >
+              <div className="flex items-center justify-center space-x-2 hud-text text-xl font-bold tracking-widest text-red-400">
+                <AlertTriangle className="w-5 h-5" />
+                <span>WARNING</span>
+                <AlertTriangle className="w-5 h-5" />
+              </div>
+              <div className="text-sm text-white">{getScriptedEvent(scriptedEvent.id)?.hud.warning}</div>
+            </div>
+          </div>
+        )}
+        
+        {gameState === GameState.GAMEPLAY && scriptedEvent?.phase === 'active' && (
+          <div className="absolute top-16 left-4 w-40 pointer-events-none z-10">
+            <div className="glassmorphism rounded-lg px-2 py-1">
+              <div className="flex items-center text-xs">
+                <span className="flex-1 truncate font-bold tracking-wide">
+                  {getScriptedEvent(scriptedEvent.id)?.hud.name.toUpperCase()}
+                </span>
+                <span className="font-mono tabular-nums">
+                  {Math.ceil((scriptedEvent.duration - scriptedEvent.elapsed) / 1000)}s
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className="h-full rounded-full transition-[width] duration-100 ease-linear"
+                  style={{
+                    width: `${(1 - scriptedEvent.elapsed / scriptedEvent.duration) * 100}%`,
+                    backgroundColor: getScriptedEvent(scriptedEvent.id)?.hud.color
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {gameState === GameState.GAMEPLAY && stageRun && (
+          <div className="absolute top-16 left-4 w-40 pointer-events-none z-10">
+            <div className="glassmorphism rounded-lg px-2 py-1">
+              <div className="flex items-center text-xs">
+                <Flag className="w-3 h-3 mr-1 text-[#91d3d1]" />
+                <span className="flex-1 truncate font-bold tracking-wide">{stageRun.name.toUpperCase()}</span>
+                <span className="font-mono tabular-nums">{Math.round(stageRun.progress * 100)}%</span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-[#91d3d1] transition-[width] duration-100 ease-linear"
+                  style={{ width: `${stageRun.progress * 100}%` }}
+                />
+              </div>
+              <div className="flex justify-between mt-1 text-[10px] text-gray-300 font-mono">
+                <span className={cn(stageRun.seeds >= stageRun.seedTarget && "text-yellow-400")}>
+                  Seeds {stageRun.seeds}/{stageRun.seedTarget}
+                </span>
+                <span>Hits {stageRun.damage}</span>
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {gameState === GameState.GAMEPLAY && modeRules === PRACTICE_RULES && (
+          <div className="absolute top-32 left-4 z-20">
+            <TuningPanel
+              tuning={tuning}
+              onChange={handleTuningChange}
+              getFrameStats={getFrameStats}
+            />
+          </div>
+        )}
+        
+        {gameState === GameState.GAMEPLAY && activePowerUps.length > 0 && (
+          <div className="absolute top-16 right-4 w-36 space-y-1.5 pointer-events-none z-10">
+            {activePowerUps.map((active) => {
+              const definition = getPowerUp(active.type);
+              return (
+                <div key={active.type} className="glassmorphism rounded-lg px-2 py-1">
+                  <div className="flex items-center space-x-1.5 text-xs">
+                    <PowerUpIcon type={active.type} size={14} />
+                    <span className="flex-1 truncate font-medium">{definition?.hud.name}</span>
+                    {active.stacks > 1 && (
+                      <span className="font-mono" style={{ color: definition?.hud.color }}>x{active.stacks}</span>
+                    )}
+                    <span className="font-mono tabular-nums">{Math.ceil(active.remaining / 1000)}s</span>
+                  </div>
+                  <div className="mt-1 h-0.5 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full rounded-full transition-[width] duration-100 ease-linear"
+                      style={{
+                        width: `${(active.remaining / active.duration) * 100}%`,
+                        backgroundColor: definition?.hud.color
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        
         {gameState === GameState.MODE_SELECTION && (
           <ModeSelectionScreen 
             onSelectMode={handleModeSelection}
@@ -993,7 +1581,23 @@ const Game: React.FC = () => {
           />
         )}
         
-        {gameState === GameState.START_SCREEN && !showHowToPlay && (
+        {gameState === GameState.START_SCREEN && !showHowToPlay && showStageSelect && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] backdrop-blur-sm transition-all duration-500 animate-fade-in">
+            <div className="glassmorphism rounded-3xl p-6 mb-8 w-full max-w-md mx-auto shadow-xl animate-scale-in border border-[#91d3d1]/20 overflow-y-auto max-h-[90vh]">
+              <StageSelectPanel
+                progress={stageProgress}
+                onSelect={handleStartStage}
+                onBack={() => {
+                  playButtonSound();
+                  setShowStageSelect(false);
+                }}
+                disabled={!gameInitialized}
+              />
+            </div>
+          </div>
+        )}
+        
+        {gameState === GameState.START_SCREEN && !showHowToPlay && !showStageSelect && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] backdrop-blur-sm transition-all duration-500 animate-fade-in">
             <div className="glassmorphism rounded-3xl p-8 mb-8 max-w-md mx-auto text-center shadow-xl animate-scale-in border border-[#91d3d1]/20">
               <h1 className="text-5xl font-bold mb-2 tracking-tight text-white text-gradient">Superseed Lane Runner</h1>
@@ -1004,17 +1608,92 @@ const Game: React.FC = () => {
                 </div>
               )}
               
-              <div className="chip text-xs bg-[#91d3d1]/10 text-[#91d3d1] px-3 py-1 rounded-full mb-4 inline-block">FAST-PACED ACTION</div>
+              <div className="chip text-xs bg-[#91d3d1]/10 text-[#91d3d1] px-3 py-1 rounded-full mb-4 inline-block">
+                {modeRules === ENDLESS_RULES ? 'FAST-PACED ACTION' : modeRules.name.toUpperCase()}
+              </div>
               <p className="text-gray-300 mb-6">Navigate through traffic, collect seeds, and survive as long as possible!</p>
               
               <div className="flex flex-col space-y-4 items-center">
-                <Button 
-                  onClick={handleStartGame}
-                  className="game-button w-full bg-gradient-to-r from-[#91d3d1] to-[#7ec7c5] hover:from-[#7ec7c5] hover:to-[#6abfbd] text-zinc-900 rounded-xl py-6 text-lg font-medium shadow-lg shadow-[#91d3d1]/20"
-                  disabled={!gameInitialized}
-                >
-                  {gameInitialized ? 'Start Game' : <Loader2 className="h-5 w-5 animate-spin" />}
-                </Button>
+                {selectedGameMode === GameMode.DAILY ? (
+                  <DailyChallengePanel
+                    onPlayRanked={() => handleStartDaily(true)}
+                    onPractice={() => handleStartDaily(false)}
+                    disabled={!gameInitialized}
+                  />
+                ) : (
+                  <Button 
+                    onClick={handleStartGame}
+                    className="game-button w-full bg-gradient-to-r from-[#91d3d1] to-[#7ec7c5] hover:from-[#7ec7c5] hover:to-[#6abfbd] text-zinc-900 rounded-xl py-6 text-lg font-medium shadow-lg shadow-[#91d3d1]/20"
+                    disabled={!gameInitialized}
+                  >
+                    {gameInitialized ? 'Start Game' : <Loader2 className="h-5 w-5 animate-spin" />}
+                  </Button>
+                )}
+                
+                {selectedGameMode !== GameMode.DAILY && (
+                  <div className="w-full grid grid-cols-4 gap-2">
+                    {DIFFICULTY_PRESETS.map((preset) => (
+                      <Button
+                        key={preset.id}
+                        variant="teal-outline"
+                        size="sm"
+                        className={cn(
+                          "rounded-xl px-2",
+                          difficultyId === preset.id && "bg-[#91d3d1]/20"
+                        )}
+                        onClick={() => handleSelectDifficulty(preset.id)}
+                      >
+                        {preset.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                
+                <div className="w-full glassmorphism rounded-xl p-3 space-y-3 border border-[#91d3d1]/20">
+                  <div className="grid grid-cols-3 gap-2">
+                    {THEMES.map((theme) => {
+                      const Icon = THEME_ICONS[theme.id];
+                      return (
+                        <Button
+                          key={theme.id}
+                          variant="teal-outline"
+                          size="sm"
+                          className={cn(
+                            "rounded-xl px-0 h-12 flex-col gap-0.5 text-[10px]",
+                            themeId === theme.id && "bg-[#91d3d1]/20"
+                          )}
+                          onClick={() => handleSelectTheme(theme.id)}
+                          aria-label={`${theme.name} theme`}
+                        >
+                          <Icon className="h-4 w-4" />
+                          {theme.name}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="theme-cycle-toggle" className="flex items-center text-sm text-gray-300 cursor-pointer">
+                      <Repeat className="mr-2 h-4 w-4 text-[#91d3d1]" />
+                      Change every {THEME_MILESTONE}m
+                    </label>
+                    <Switch
+                      id="theme-cycle-toggle"
+                      checked={themeCycle}
+                      onCheckedChange={handleToggleThemeCycle}
+                    />
+                  </div>
+                </div>
+                
+                {selectedGameMode !== GameMode.DAILY && modeRules === ENDLESS_RULES && (
+                  <Button 
+                    onClick={handleShowStageSelect}
+                    variant="teal-outline"
+                    className="w-full rounded-xl py-6 text-lg font-medium"
+                  >
+                    <Flag className="mr-2 h-5 w-5" />
+                    Campaign
+                  </Button>
+                )}
                 
                 <Button 
                   onClick={() => setShowCarSelection(true)}
@@ -1043,6 +1722,52 @@ const Game: React.FC = () => {
                   Leaderboard
                 </Button>
                 
+                {selectedGameMode !== GameMode.DAILY && (
+                  <div className="w-full flex items-center justify-between glassmorphism rounded-xl px-4 py-3 border border-[#91d3d1]/20">
+                    <label htmlFor="ghost-toggle" className="flex items-center text-gray-300 cursor-pointer">
+                      <Ghost className="mr-2 h-5 w-5 text-[#91d3d1]" />
+                      Race Ghost
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="rounded-full h-8 w-8 text-[#91d3d1] hover:bg-gray-800/30"
+                        onClick={() => ghostFileInputRef.current?.click()}
+                        aria-label="Import ghost replay"
+                      >
+                        <Upload className="h-4 w-4" />
+                      </Button>
+                      <Switch
+                        id="ghost-toggle"
+                        checked={ghostEnabled}
+                        onCheckedChange={handleToggleGhost}
+                      />
+                    </div>
+                    <input
+                      ref={ghostFileInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={handleImportGhost}
+                    />
+                  </div>
+                )}
+                
+                {selectedGameMode !== GameMode.DAILY && (
+                  <div className="w-full flex items-center justify-between glassmorphism rounded-xl px-4 py-3 border border-[#91d3d1]/20">
+                    <label htmlFor="weather-toggle" className="flex items-center text-gray-300 cursor-pointer">
+                      <CloudRain className="mr-2 h-5 w-5 text-[#91d3d1]" />
+                      Changing Weather
+                    </label>
+                    <Switch
+                      id="weather-toggle"
+                      checked={weatherEnabled}
+                      onCheckedChange={handleToggleWeather}
+                    />
+                  </div>
+                )}
+                
                 <div className="w-full mt-2 pt-2">
                   <OnchainMode />
                 </div>
@@ -1064,6 +1789,17 @@ const Game: React.FC = () => {
                   >
                     {isSoundEnabled ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
                   </Button>
+                  
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="rounded-full bg-black/20 backdrop-blur-sm hover:bg-black/30 h-10 px-3 text-xs font-mono"
+                    onClick={handleCycleQuality}
+                    aria-label="Change render quality"
+                  >
+                    <Monitor className="h-4 w-4 mr-1" />
+                    {maxPixelRatio}x
+                  </Button>
                 </div>
               </div>
             </div>
@@ -1191,7 +1927,20 @@ const Game: React.FC = () => {
         {gameState === GameState.GAME_OVER && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] backdrop-blur-sm transition-all duration-500 animate-fade-in">
             <div className="game-over-modal glassmorphism rounded-3xl p-6 max-w-md mx-auto text-center border border-[#91d3d1]/20 overflow-y-auto max-h-[90vh]">
-              <h2 className="text-3xl font-bold mb-2">Game Over</h2>
+              <h2 className="text-3xl font-bold mb-2">
+                {stageResult
+                  ? (stageResult.finished ? 'Stage Clear' : 'Stage Failed')
+                  : timeLeft === 0 ? 'Time Up' : 'Game Over'}
+              </h2>
+              
+              {stageResult && (
+                <div className="flex flex-col items-center space-y-1">
+                  <StageStars stars={stageResult.stars} size={28} />
+                  <p className="text-sm text-gray-300">
+                    {activeStage?.name} · {stageResult.seeds}/{activeStage?.stars.seeds} seeds · {stageResult.damage} {stageResult.damage === 1 ? 'hit' : 'hits'}
+                  </p>
+                </div>
+              )}
               
               <div className="my-4 space-y-4">
                 {username && (
@@ -1205,7 +1954,39 @@ const Game: React.FC = () => {
                   <p className="text-4xl font-bold">{score}</p>
                 </div>
                 
-                {score > highScore ? (
+                {scoreBreakdown && (
+                  <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-left max-w-[220px] mx-auto">
+                    <span className="text-gray-400">Distance</span>
+                    <span className="text-right font-mono">{scoreBreakdown.distance}</span>
+                    <span className="text-gray-400">Survival</span>
+                    <span className="text-right font-mono">{scoreBreakdown.survival}</span>
+                    <span className="text-gray-400">Seeds</span>
+                    <span className="text-right font-mono">{scoreBreakdown.seeds}</span>
+                    <span className="text-gray-400">Near misses ({scoreBreakdown.nearMissCount})</span>
+                    <span className="text-right font-mono">{scoreBreakdown.nearMiss}</span>
+                    {scoreBreakdown.powerUps > 0 && (
+                      <>
+                        <span className="text-gray-400">Power-up bonus</span>
+                        <span className="text-right font-mono">{scoreBreakdown.powerUps}</span>
+                      </>
+                    )}
+                    {scoreBreakdown.bosses > 0 && (
+                      <>
+                        <span className="text-gray-400">Boss bonus</span>
+                        <span className="text-right font-mono">{scoreBreakdown.bosses}</span>
+                      </>
+                    )}
+                    <span className="text-gray-400">Best streak</span>
+                    <span className="text-right font-mono text-[#91d3d1]">{scoreBreakdown.bestStreak}</span>
+                  </div>
+                )}
+                
+                {stageResult ? (
+                  <div className="space-y-2">
+                    <p className="text-gray-400 text-sm">STAGE BEST</p>
+                    <p className="text-2xl font-medium">{stageProgress[stageResult.id]?.score ?? score}</p>
+                  </div>
+                ) : !modeRules.highScoreKey ? null : score > highScore ? (
                   <div className="py-2 px-4 bg-[#91d3d1]/20 text-[#91d3d1] rounded-full inline-flex items-center space-x-2 animate-pulse">
                     <Trophy className="w-5 h-5" />
                     <span>New High Score!</span>
@@ -1216,9 +1997,30 @@ const Game: React.FC = () => {
                     <p className="text-2xl font-medium">{highScore}</p>
                   </div>
                 )}
+                
+                {dailyRun && (
+                  <div className="chip text-xs bg-[#91d3d1]/10 text-[#91d3d1] px-3 py-1 rounded-full inline-flex items-center">
+                    <CalendarDays className="w-3 h-3 mr-1" />
+                    Daily {dailyRun.date} · {dailyRun.ranked ? 'Ranked' : 'Practice'}
+                  </div>
+                )}
+                
+                {!stageResult && modeRules !== ENDLESS_RULES && (
+                  <div className="chip text-xs bg-[#91d3d1]/10 text-[#91d3d1] px-3 py-1 rounded-full inline-flex items-center">
+                    {modeRules === HARDCORE_RULES ? <Skull className="w-3 h-3 mr-1" /> : <Timer className="w-3 h-3 mr-1" />}
+                    {modeRules.name}
+                  </div>
+                )}
+                
+                {lastRunSeed !== null && !stageResult && (
+                  <div className="text-xs text-gray-400">
+                    {lastRunDifficulty && `${DIFFICULTY_PRESETS.find(preset => preset.id === lastRunDifficulty)?.name ?? lastRunDifficulty} · `}
+                    Seed <span className="font-mono text-[#91d3d1]">{lastRunSeed}</span>
+                  </div>
+                )}
               </div>
               
-              {isConnected && (
+              {isConnected && canSubmitScore && (!dailyRun || dailyRun.ranked) && (
                 <div className="mb-4">
                   <div className="w-64 mx-auto mb-3">
                     <WalletInfoPanel wallet={wallet} refreshBalance={refreshBalance} />
@@ -1233,7 +2035,8 @@ const Game: React.FC = () => {
                   
                   <Button 
                     onClick={() => {
-                      submitScore(score)
+                      // Ranked daily runs carry the day's seed so they count on the daily leaderboard
+                      submitScore(score, dailyRun ? getDailySeed(dailyRun.date) : undefined)
                         .then(() => toast.success("Score submitted to blockchain!"))
                         .catch(err => {
                           console.error(err);
@@ -1250,12 +2053,22 @@ const Game: React.FC = () => {
                     Submit Score to Blockchain
                   </Button>
                   <div className="text-xs text-gray-400">
-                    Playing as {username} in Onchain Mode
+                    Playing as {username} in {dailyRun ? 'the Daily Challenge' : 'Onchain Mode'}
                   </div>
                 </div>
               )}
               
               <div className="space-y-3">
+                {nextStage && (
+                  <Button 
+                    onClick={() => handleStartStage(nextStage)}
+                    className="game-button w-full bg-gradient-to-r from-[#91d3d1] to-[#7ec7c5] hover:from-[#7ec7c5] hover:to-[#6abfbd] text-zinc-900 rounded-xl py-4 text-lg font-medium shadow-lg shadow-[#91d3d1]/20"
+                  >
+                    <SkipForward className="mr-2 h-5 w-5" />
+                    Next Stage
+                  </Button>
+                )}
+                
                 <Button 
                   onClick={handleTryAgain}
                   className="game-button w-full bg-gradient-to-r from-[#91d3d1] to-[#7ec7c5] hover:from-[#7ec7c5] hover:to-[#6abfbd] text-zinc-900 rounded-xl py-4 text-lg font-medium shadow-lg shadow-[#91d3d1]/20"
@@ -1272,6 +2085,26 @@ const Game: React.FC = () => {
                   View Leaderboard
                 </Button>
                 
+                <div className="grid grid-cols-2 gap-3">
+                  <Button 
+                    onClick={handleWatchReplay}
+                    variant="teal-outline"
+                    className="w-full rounded-xl py-3 text-base font-medium"
+                  >
+                    <Film className="mr-2 h-5 w-5" />
+                    Replay
+                  </Button>
+                  
+                  <Button 
+                    onClick={handleDownloadReplay}
+                    variant="teal-outline"
+                    className="w-full rounded-xl py-3 text-base font-medium"
+                  >
+                    <Download className="mr-2 h-5 w-5" />
+                    Save
+                  </Button>
+                </div>
+                
                 <Button 
                   onClick={handleBackToStartScreen}
                   variant="teal-outline"
@@ -9,7 +9,8 @@ import {
 } from '@/components/ui/dialog';
 import { Leaderboard } from './Leaderboard';
 import { AllScoresLeaderboard } from './AllScoresLeaderboard';
-import { Trophy, List } from 'lucide-react';
+import { DailyLeaderboard } from './DailyLeaderboard';
+import { Trophy, List, CalendarDays } from 'lucide-react';
 import { ScrollArea } from './ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 
@@ -33,13 +34,13 @@ export const LeaderboardDialog: React.FC<LeaderboardDialogProps> = ({
             <DialogTitle className="text-gradient">Superseed Leaderboard</DialogTitle>
           </div>
           <DialogDescription className="text-zinc-400 text-sm">
-            View top players and all scores
+            View top players, all scores and today's challenge
           </DialogDescription>
         </DialogHeader>
         
         <Tabs defaultValue="top-scores" value={activeTab} onValueChange={setActiveTab} className="w-full">
           <div className="px-5 pt-3">
-            <TabsList className="w-full grid grid-cols-2 bg-zinc-800/50 border border-zinc-700/30 rounded-lg">
+            <TabsList className="w-full grid grid-cols-3 bg-zinc-800/50 border border-zinc-700/30 rounded-lg">
               <TabsTrigger value="top-scores" className="flex items-center gap-1 data-[state=active]:bg-[#91d3d1]/10 data-[state=active]:text-[#91d3d1] rounded-lg">
                 <Trophy className="h-3.5 w-3.5" />
                 <span className="text-xs">Top Scores</span>
@@ -48,6 +49,10 @@ export const LeaderboardDialog: React.FC<LeaderboardDialogProps> = ({
                 <List className="h-3.5 w-3.5" />
                 <span className="text-xs">All Scores</span>
               </TabsTrigger>
+              <TabsTrigger value="daily" className="flex items-center gap-1 data-[state=active]:bg-[#91d3d1]/10 data-[state=active]:text-[#91d3d1] rounded-lg">
+                <CalendarDays className="h-3.5 w-3.5" />
+                <span className="text-xs">Daily</span>
+              </TabsTrigger>
             </TabsList>
           </div>
           
@@ -58,6 +63,9 @@ export const LeaderboardDialog: React.FC<LeaderboardDialogProps> = ({
             <TabsContent value="all-scores" className="p-5 pt-3 m-0">
               <AllScoresLeaderboard />
             </TabsContent>
+            <TabsContent value="daily" className="p-5 pt-3 m-0">
+              <DailyLeaderboard />
+            </TabsContent>
           </ScrollArea>
         </Tabs>
       </DialogContent>
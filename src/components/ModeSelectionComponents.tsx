@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Blocks, User, X } from 'lucide-react';
+import { ArrowLeft, Blocks, CalendarDays, GraduationCap, Skull, Timer, User, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { GameMode } from '@/game/GameEngine';
 
@@ -93,6 +93,68 @@ export const ModeSelectionScreen: React.FC<{
             )}
           </Button>
           
+          <Button 
+            onClick={() => onSelectMode(GameMode.DAILY)}
+            variant="teal-outline"
+            className={cn(
+              "w-full rounded-xl py-6 text-lg font-medium relative overflow-hidden",
+              currentMode === GameMode.DAILY && "ring-2 ring-[#91d3d1]/50"
+            )}
+          >
+            <CalendarDays className="mr-3 h-5 w-5" />
+            DAILY CHALLENGE
+            {currentMode === GameMode.DAILY && isReturningUser && (
+              <span className="absolute top-0 right-0 bg-[#91d3d1] text-zinc-900 px-2 py-1 text-xs rounded-bl-md rounded-tr-md">CURRENT</span>
+            )}
+          </Button>
+          
+          <div className="w-full grid grid-cols-2 gap-3">
+            <Button 
+              onClick={() => onSelectMode(GameMode.TIME_ATTACK)}
+              variant="teal-outline"
+              className={cn(
+                "w-full rounded-xl py-6 font-medium relative overflow-hidden",
+                currentMode === GameMode.TIME_ATTACK && "ring-2 ring-[#91d3d1]/50"
+              )}
+            >
+              <Timer className="mr-2 h-5 w-5" />
+              TIME ATTACK
+              {currentMode === GameMode.TIME_ATTACK && isReturningUser && (
+                <span className="absolute top-0 right-0 bg-[#91d3d1] text-zinc-900 px-1.5 py-0.5 text-[10px] rounded-bl-md rounded-tr-md">CURRENT</span>
+              )}
+            </Button>
+            
+            <Button 
+              onClick={() => onSelectMode(GameMode.HARDCORE)}
+              variant="teal-outline"
+              className={cn(
+                "w-full rounded-xl py-6 font-medium relative overflow-hidden",
+                currentMode === GameMode.HARDCORE && "ring-2 ring-[#91d3d1]/50"
+              )}
+            >
+              <Skull className="mr-2 h-5 w-5" />
+              HARDCORE
+              {currentMode === GameMode.HARDCORE && isReturningUser && (
+                <span className="absolute top-0 right-0 bg-[#91d3d1] text-zinc-900 px-1.5 py-0.5 text-[10px] rounded-bl-md rounded-tr-md">CURRENT</span>
+              )}
+            </Button>
+          </div>
+          
+          <Button 
+            onClick={() => onSelectMode(GameMode.PRACTICE)}
+            variant="ghost"
+            className={cn(
+              "w-full rounded-xl py-5 font-medium text-[#91d3d1] hover:bg-[#91d3d1]/10 relative overflow-hidden",
+              currentMode === GameMode.PRACTICE && "ring-2 ring-[#91d3d1]/50"
+            )}
+          >
+            <GraduationCap className="mr-2 h-5 w-5" />
+            PRACTICE
+            {currentMode === GameMode.PRACTICE && isReturningUser && (
+              <span className="absolute top-0 right-0 bg-[#91d3d1] text-zinc-900 px-1.5 py-0.5 text-[10px] rounded-bl-md rounded-tr-md">CURRENT</span>
+            )}
+          </Button>
+          
           {/* Add a Continue button for returning users */}
           {isReturningUser && onContinue && (
             <Button 
@@ -106,6 +168,10 @@ export const ModeSelectionScreen: React.FC<{
         
         <div className="mt-8 text-sm text-[#91d3d1]/70">
           <p>• Onchain Mode: Earn rewards and own your achievements</p>
+          <p>• Daily Challenge: Same road for everyone, one ranked run a day</p>
+          <p>• Time Attack: 90 seconds on the clock, crashes cost time</p>
+          <p>• Hardcore: One life and no extra lives to pick up</p>
+          <p>• Practice: Crashes are free and the road can be tuned live; scores aren't kept</p>
         </div>
       </div>
       
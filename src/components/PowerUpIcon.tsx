@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+import { PowerUpType } from '@/game/GameTypes';
+import { getPowerUp } from '@/game/PowerUps';
+
+interface PowerUpIconProps {
+  type: PowerUpType;
+  size?: number; // CSS pixels
+  color?: string; // Defaults to the power-up's HUD colour
+  className?: string;
+}
+
+// Draws a power-up's registered canvas icon, by default in its HUD colour
+export const PowerUpIcon: React.FC<PowerUpIconProps> = ({ type, size = 16, color, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const definition = getPowerUp(type);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !definition || !ctx) return;
+
+    // Render at device resolution so the icon stays crisp
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = size * scale;
+    canvas.height = size * scale;
+
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+    ctx.fillStyle = color ?? definition.hud.color;
+    ctx.strokeStyle = color ?? definition.hud.color;
+    ctx.lineWidth = Math.max(1.5, size / 10);
+    ctx.lineCap = 'round';
+    definition.drawIcon(ctx, size / 2, size / 2, size * 0.38);
+  }, [type, size, color]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ width: size, height: size }}
+      aria-hidden="true"
+    />
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameEngine, GameState } from '@/game/GameEngine';
+import { DEFAULT_PLAYER_CAR, DEFAULT_ENEMY_CARS, SEED_IMAGE } from '@/game/GameAssets';
+import { Replay } from '@/game/Replay';
+import { TIME_STEP } from '@/game/GameSimulation';
+import { getRuleSet } from '@/game/GameRules';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Heart, Pause, Play, RotateCcw, Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const PLAYBACK_RATES = [0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  replay: Replay;
+}
+
+// Format a tick count as m:ss
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor((ticks * TIME_STEP) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  const [score, setScore] = useState<number>(0);
+  const [lives, setLives] = useState<number>(3);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  const [isFinished, setIsFinished] = useState<boolean>(false);
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
+  const [tick, setTick] = useState<number>(0);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const container = canvas.parentElement;
+    if (container) {
+      canvas.width = container.clientWidth;
+      canvas.height = container.clientHeight;
+    }
+
+    const engine = new GameEngine({
+      canvas,
+      onScoreChange: (newScore) => setScore(newScore),
+      onLivesChange: (newLives) => setLives(newLives),
+      onTimeLeftChange: (newTimeLeft) => setTimeLeft(newTimeLeft),
+      onGameStateChange: (state) => setIsFinished(state === GameState.GAME_OVER),
+      onPowerUpStart: () => {},
+      onPowerUpEnd: () => {},
+      customAssets: {
+        playerCarURL: localStorage.getItem('selectedCar') || DEFAULT_PLAYER_CAR,
+        enemyCarURLs: DEFAULT_ENEMY_CARS,
+        seedImageURL: SEED_IMAGE,
+        useDefaultsIfBroken: true
+      }
+    });
+
+    // Timed runs show the clock rather than lives, as in a live run
+    setTimeLeft(getRuleSet(replay.rules).timeLimit ?? null);
+
+    engineRef.current = engine;
+    engine.startReplay(replay);
+    setIsPlaying(true);
+    setPlaybackRate(1);
+
+    return () => {
+      engine.cleanup();
+      engineRef.current = null;
+    };
+  }, [replay]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (engineRef.current) {
+        setTick(engineRef.current.getReplayProgress().tick);
+      }
+    }, 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleTogglePlay = () => {
+    if (!engineRef.current) return;
+
+    if (isFinished) {
+      engineRef.current.seekReplay(0);
+      engineRef.current.setReplayPaused(false);
+      setIsPlaying(true);
+      return;
+    }
+
+    engineRef.current.setReplayPaused(isPlaying);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleSeek = (value: number[]) => {
+    if (!engineRef.current) return;
+    engineRef.current.seekReplay(value[0]);
+    setTick(value[0]);
+  };
+
+  const handleRateChange = (rate: number) => {
+    if (!engineRef.current) return;
+    engineRef.current.setPlaybackRate(rate);
+    setPlaybackRate(rate);
+  };
+
+  return (
+    <div className="relative w-full h-full flex flex-col">
+      <div className="relative flex-1">
+        <canvas ref={canvasRef} className="w-full h-full"></canvas>
+
+        <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-10">
+          <div className="flex items-center space-x-2 glassmorphism px-3 py-1 rounded-full">
+            {timeLeft !== null ? (
+              <div className={cn(
+                "flex items-center hud-text text-lg font-medium tabular-nums",
+                timeLeft <= 10000 && "text-red-400 animate-pulse"
+              )}>
+                <Timer className="w-5 h-5 mr-1" />
+                {Math.floor(Math.ceil(timeLeft / 1000) / 60)}:{String(Math.ceil(timeLeft / 1000) % 60).padStart(2, '0')}
+              </div>
+            ) : (
+              Array.from({ length: lives }).map((_, i) => (
+                <Heart key={i} className="w-5 h-5 text-red-500 fill-red-500" />
+              ))
+            )}
+          </div>
+
+          <div className="glassmorphism px-4 py-1 rounded-full">
+            <div className="hud-text text-xl font-medium">{score}</div>
+          </div>
+
+          <div className="chip text-xs bg-[#91d3d1]/20 text-[#91d3d1] px-3 py-1 rounded-full">
+            REPLAY
+          </div>
+        </div>
+      </div>
+
+      <div className="glassmorphism p-4 space-y-3 border-t border-[#91d3d1]/20">
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="teal"
+            size="icon"
+            className="rounded-full flex-shrink-0"
+            onClick={handleTogglePlay}
+            aria-label={isFinished ? "Restart replay" : isPlaying ? "Pause replay" : "Play replay"}
+          >
+            {isFinished ? <RotateCcw className="h-5 w-5" /> : isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+          </Button>
+
+          <Slider
+            value={[Math.min(tick, replay.ticks)]}
+            max={replay.ticks}
+            step={1}
+            onValueChange={handleSeek}
+          />
+
+          <span className="text-xs font-mono text-gray-300 tabular-nums flex-shrink-0">
+            {formatTicks(tick)} / {formatTicks(replay.ticks)}
+          </span>
+        </div>
+
+        <div className="flex justify-center space-x-2">
+          {PLAYBACK_RATES.map((rate) => (
+            <Button
+              key={rate}
+              variant="teal-outline"
+              size="sm"
+              className={cn(
+                "rounded-full px-3",
+                playbackRate === rate && "bg-[#91d3d1]/20"
+              )}
+              onClick={() => handleRateChange(rate)}
+            >
+              {rate}x
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
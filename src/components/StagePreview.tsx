@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameEngine, GameState, StageRun } from '@/game/GameEngine';
+import { DEFAULT_PLAYER_CAR, DEFAULT_ENEMY_CARS, SEED_IMAGE } from '@/game/GameAssets';
+import { StageDefinition } from '@/game/Stages';
+import { Button } from '@/components/ui/button';
+import { Heart, Play, Square } from 'lucide-react';
+
+interface StagePreviewProps {
+  stage: StageDefinition;
+  from: number; // Metres along the track to start the preview at
+}
+
+// Plays the stage being edited in the real engine, with the arrow keys
+export const StagePreview: React.FC<StagePreviewProps> = ({ stage, from }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  const [gameState, setGameState] = useState<GameState>(GameState.START_SCREEN);
+  const [lives, setLives] = useState<number>(3);
+  const [stageRun, setStageRun] = useState<StageRun | null>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const container = canvas.parentElement;
+    if (container) {
+      canvas.width = container.clientWidth;
+      canvas.height = container.clientHeight;
+    }
+
+    const engine = new GameEngine({
+      canvas,
+      onScoreChange: () => {},
+      onLivesChange: (newLives) => setLives(newLives),
+      onGameStateChange: (state) => setGameState(state),
+      onPowerUpStart: () => {},
+      onPowerUpEnd: () => {},
+      onStageProgress: (stage) => setStageRun(stage),
+      customAssets: {
+        playerCarURL: localStorage.getItem('selectedCar') || DEFAULT_PLAYER_CAR,
+        enemyCarURLs: DEFAULT_ENEMY_CARS,
+        seedImageURL: SEED_IMAGE,
+        useDefaultsIfBroken: true
+      }
+    });
+
+    engineRef.current = engine;
+
+    return () => {
+      engine.cleanup();
+      engineRef.current = null;
+    };
+  }, []);
+
+  const handlePlay = () => {
+    engineRef.current?.startPreview(stage, from);
+  };
+
+  const handleStop = () => {
+    engineRef.current?.setGameState(GameState.START_SCREEN);
+  };
+
+  const isPlaying = gameState === GameState.GAMEPLAY || gameState === GameState.PAUSED;
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="relative w-[300px] h-[520px] rounded-xl overflow-hidden border border-[#91d3d1]/20 bg-black/40">
+        <canvas ref={canvasRef} className="w-full h-full" />
+
+        {isPlaying && stageRun && (
+          <div className="absolute top-2 inset-x-2 flex items-center justify-between text-xs pointer-events-none">
+            <div className="flex items-center space-x-1">
+              {Array.from({ length: lives }, (_, i) => (
+                <Heart key={i} className="h-3 w-3 text-red-500 fill-red-500" />
+              ))}
+            </div>
+            <span className="font-mono glassmorphism rounded px-1.5 py-0.5">
+              {Math.round(stageRun.progress * stageRun.length)}m · Seeds {stageRun.seeds}
+            </span>
+          </div>
+        )}
+
+        {!isPlaying && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 text-center p-4">
+            {gameState === GameState.GAME_OVER && stageRun && (
+              <p className="text-sm text-gray-300 mb-3">
+                {stageRun.finished ? 'Reached the finish line' : `Crashed out at ${Math.round(stageRun.progress * stageRun.length)}m`}
+              </p>
+            )}
+            <p className="text-xs text-gray-400">Use the arrow keys to drive</p>
+          </div>
+        )}
+      </div>
+
+      {isPlaying ? (
+        <Button variant="teal-outline" className="rounded-xl" onClick={handleStop}>
+          <Square className="mr-2 h-4 w-4" />
+          Stop Preview
+        </Button>
+      ) : (
+        <Button variant="teal" className="rounded-xl" onClick={handlePlay}>
+          <Play className="mr-2 h-4 w-4" />
+          Preview from {from}m
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Flag, Lock, Moon, Star, Sun, Sunset } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { STAGES, StageDefinition } from '@/game/Stages';
+import { StageProgress, isStageUnlocked } from '@/game/StageProgress';
+import { StageTheme } from '@/game/GameEngine';
+
+interface StageSelectPanelProps {
+  progress: StageProgress;
+  onSelect: (stage: StageDefinition) => void;
+  onBack: () => void;
+  disabled?: boolean;
+}
+
+const THEME_ICONS: Record<StageTheme, React.ElementType> = {
+  day: Sun,
+  dusk: Sunset,
+  night: Moon
+};
+
+// Row of three stars, filled up to the count earned
+export const StageStars: React.FC<{ stars: number; size?: number }> = ({ stars, size = 14 }) => (
+  <div className="flex items-center space-x-0.5">
+    {[1, 2, 3].map(star => (
+      <Star
+        key={star}
+        style={{ width: size, height: size }}
+        className={star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}
+      />
+    ))}
+  </div>
+);
+
+export const StageSelectPanel: React.FC<StageSelectPanelProps> = ({
+  progress,
+  onSelect,
+  onBack,
+  disabled
+}) => {
+  const totalStars = STAGES.reduce((total, stage) => total + (progress[stage.id]?.stars ?? 0), 0);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8 text-[#91d3d1] hover:bg-gray-800/30"
+          onClick={onBack}
+          aria-label="Back"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex items-center text-[#91d3d1]">
+          <Flag className="mr-2 h-4 w-4" />
+          <span className="font-medium">Campaign</span>
+        </div>
+        <div className="flex items-center text-xs text-gray-300">
+          <Star className="mr-1 h-3.5 w-3.5 text-yellow-400 fill-yellow-400" />
+          <span className="font-mono">{totalStars}/{STAGES.length * 3}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {STAGES.map((stage, index) => {
+          const unlocked = isStageUnlocked(index, progress);
+          const best = progress[stage.id];
+          const ThemeIcon = THEME_ICONS[stage.theme];
+
+          return (
+            <button
+              key={stage.id}
+              onClick={() => onSelect(stage)}
+              disabled={disabled || !unlocked}
+              className={cn(
+                "w-full glassmorphism rounded-xl px-4 py-3 border border-[#91d3d1]/20 text-left transition-colors",
+                unlocked ? "hover:bg-[#91d3d1]/10" : "opacity-50 cursor-not-allowed"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-mono text-xs text-gray-400">{index + 1}</span>
+                  <span className="font-medium text-white">{stage.name}</span>
+                  <ThemeIcon className="h-3.5 w-3.5 text-gray-400" />
+                </div>
+                {unlocked ? <StageStars stars={best?.stars ?? 0} /> : <Lock className="h-4 w-4 text-gray-400" />}
+              </div>
+              <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+                <span className="truncate mr-2">{stage.description}</span>
+                <span className="font-mono whitespace-nowrap">
+                  {stage.length}m · {stage.laneCount} lanes{best ? ` · ${best.score}` : ''}
+                </span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { RotateCcw, SlidersHorizontal, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getPowerUps } from '@/game/PowerUps';
+import { SimulationTuning } from '@/game/GameSimulation';
+import { FrameStats } from '@/game/FrameTimer';
+import { PowerUpIcon } from './PowerUpIcon';
+
+interface TuningPanelProps {
+  tuning: SimulationTuning | null;
+  onChange: (tuning: SimulationTuning | null) => void;
+  getFrameStats?: () => FrameStats | null; // Render times shown while the panel is open
+}
+
+type TunedValue = 'gameSpeed' | 'enemySpawnInterval' | 'seedSpawnInterval' | 'powerUpSpawnInterval';
+
+// Slider ranges; the start value is where the thumb sits while the curve is followed
+const TUNING_SLIDERS: {
+  key: TunedValue;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  start: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'gameSpeed', label: 'Speed', min: 0.5, max: 4, step: 0.1, start: 1, format: value => `x${value.toFixed(1)}` },
+  { key: 'enemySpawnInterval', label: 'Traffic', min: 300, max: 4000, step: 100, start: 2000, format: value => `${value}ms` },
+  { key: 'seedSpawnInterval', label: 'Seeds', min: 200, max: 3000, step: 100, start: 1000, format: value => `${value}ms` },
+  { key: 'powerUpSpawnInterval', label: 'Power-ups', min: 1000, max: 30000, step: 1000, start: 15000, format: value => `${value / 1000}s` }
+];
+
+// Developer overlay for practice runs: override the pace and spawns of the road live
+export const TuningPanel: React.FC<TuningPanelProps> = ({ tuning, onChange, getFrameStats }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const disabled = tuning?.disabledPowerUps ?? [];
+
+  useEffect(() => {
+    if (!open || !getFrameStats) return;
+
+    const interval = setInterval(() => setFrameStats(getFrameStats()), 500);
+    return () => clearInterval(interval);
+  }, [open, getFrameStats]);
+
+  const update = (patch: SimulationTuning) => onChange({ ...tuning, ...patch });
+
+  // Hand the arrow keys back to the car once a slider is let go
+  const releaseFocus = () => {
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full glassmorphism h-9 w-9 text-[#91d3d1]"
+        onClick={() => setOpen(true)}
+        aria-label="Open tuning panel"
+      >
+        <SlidersHorizontal className="h-4 w-4" />
+      </Button>
+    );
+  }
+
+  return (
+    <div className="glassmorphism rounded-xl p-3 w-60 space-y-3 border border-[#91d3d1]/20">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold tracking-widest text-[#91d3d1]">TUNING</span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 rounded-full text-gray-300"
+            onClick={() => onChange(null)}
+            disabled={!tuning}
+            aria-label="Follow the difficulty curve again"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 rounded-full text-gray-300"
+            onClick={() => setOpen(false)}
+            aria-label="Close tuning panel"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {TUNING_SLIDERS.map(slider => {
+        const value = tuning?.[slider.key];
+        return (
+          <div key={slider.key} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-300">{slider.label}</span>
+              <button
+                className={cn("font-mono", value === undefined ? "text-gray-500" : "text-[#91d3d1] hover:underline")}
+                onClick={() => update({ [slider.key]: undefined })}
+                disabled={value === undefined}
+              >
+                {value === undefined ? 'Auto' : slider.format(value)}
+              </button>
+            </div>
+            <Slider
+              value={[value ?? slider.start]}
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              onValueChange={([next]) => update({ [slider.key]: next })}
+              onValueCommit={releaseFocus}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-1">
+        {getPowerUps()
+          .filter(definition => definition.spawnWeight > 0)
+          .map(definition => {
+            const off = disabled.includes(definition.type);
+            return (
+              <button
+                key={definition.type}
+                className={cn(
+                  "h-7 w-7 flex items-center justify-center rounded-md border border-white/10",
+                  off ? "opacity-30" : "bg-white/10"
+                )}
+                onClick={() => update({
+                  disabledPowerUps: off
+                    ? disabled.filter(type => type !== definition.type)
+                    : [...disabled, definition.type]
+                })}
+                title={`${definition.hud.name}: ${off ? 'off' : 'on'}`}
+              >
+                <PowerUpIcon type={definition.type} size={16} />
+              </button>
+            );
+          })}
+      </div>
+
+      {frameStats && (
+        <div className="flex items-center justify-between text-[10px] font-mono text-gray-400">
+          <span className={cn(frameStats.average > frameStats.budget && "text-red-400")}>
+            Draw {frameStats.average.toFixed(1)}/{frameStats.budget}ms
+          </span>
+          <span>Worst {frameStats.worst.toFixed(1)}ms</span>
+          <span className={cn(frameStats.overBudget > 0.1 && "text-red-400")}>
+            {Math.round(frameStats.overBudget * 100)}% over
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -22,6 +22,17 @@ const SUPERSEED_RPC_URL = "https://sepolia.superseed.xyz/";
 const FIXED_GAS_PRICE = ethers.utils.parseUnits("1", "gwei");
 const FIXED_GAS_LIMIT = 500000; // Increased gas limit from 200,000 to 500,000
 
+// Daily challenge scores go through the same submitScore call with a marker and the day's seed
+// appended to the call data. The contract ignores the extra bytes, but they stay on the
+// transaction, which is how the daily leaderboard tells daily runs from the rest
+const DAILY_SCORE_MARKER = ethers.utils.id("superseed-daily-challenge").slice(0, 10);
+
+// Blocks searched per log query when walking back through the day's submissions
+const LOG_BLOCK_RANGE = 5000;
+
+const getDailyScoreTag = (seed: number): string =>
+  DAILY_SCORE_MARKER + ethers.utils.hexZeroPad(ethers.utils.hexlify(seed), 32).slice(2);
+
 type Web3ContextType = {
   wallet: {
     address: string | null; 
@@ -35,7 +46,7 @@ type Web3ContextType = {
   isLoading: boolean;
   error: string | null;
   createUserWallet: (username: string) => Promise<void>;
-  submitScore: (score: number) => Promise<void>;
+  submitScore: (score: number, dailySeed?: number) => Promise<void>;
   getPlayerHighScore: () => Promise<number>;
   exportPrivateKey: () => string | null;
   isSubmittingScore: boolean;
@@ -47,6 +58,7 @@ type Web3ContextType = {
   getAllScores: (startIndex: number, count: number) => Promise<{ player: string; score: number; timestamp: number; }[]>;
   getPlayerScores: (address: string) => Promise<{ player: string; score: number; timestamp: number; }[]>;
   getTotalScores: () => Promise<number>;
+  getDailyScores: (seed: number, since: number) => Promise<{ player: string; score: number; timestamp: number; }[]>;
 };
 
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
@@ -170,7 +182,8 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     return wallet.privateKey;
   };
 
-  const submitScore = async (score: number) => {
+  // Pass the daily seed for a ranked daily challenge run so it shows on the daily leaderboard
+  const submitScore = async (score: number, dailySeed?: number) => {
     if (!contract) {
       setError("No contract connection");
       toast.error("No contract connection");
@@ -198,10 +211,17 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       // Create transaction with fixed gas price and limit
-      const tx = await contract.submitScore(score, {
-        gasPrice: FIXED_GAS_PRICE,
-        gasLimit: FIXED_GAS_LIMIT
-      });
+      const tx = dailySeed === undefined
+        ? await contract.submitScore(score, {
+            gasPrice: FIXED_GAS_PRICE,
+            gasLimit: FIXED_GAS_LIMIT
+          })
+        : await contract.signer.sendTransaction({
+            to: CONTRACT_ADDRESS,
+            data: contract.interface.encodeFunctionData("submitScore", [score]) + getDailyScoreTag(dailySeed).slice(2),
+            gasPrice: FIXED_GAS_PRICE,
+            gasLimit: FIXED_GAS_LIMIT
+          });
       setLastTxHash(tx.hash);
       
       // Wait for transaction to be mined
@@ -466,6 +486,51 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Daily challenge scores submitted with the given seed since the given time (seconds)
+  const getDailyScores = async (seed: number, since: number): Promise<{ player: string; score: number; timestamp: number; }[]> => {
+    if (!contract || !provider) {
+      setError("No contract connection");
+      return [];
+    }
+    
+    try {
+      const tag = getDailyScoreTag(seed).slice(2);
+      const filter = contract.filters.ScoreSubmitted();
+      const scores: { player: string; score: number; timestamp: number; }[] = [];
+      
+      // Walk back from the newest block until the range starts before the given time
+      let toBlock = await provider.getBlockNumber();
+      while (toBlock >= 0) {
+        const fromBlock = Math.max(0, toBlock - LOG_BLOCK_RANGE + 1);
+        const events = await contract.queryFilter(filter, fromBlock, toBlock);
+        
+        for (const event of events) {
+          const timestamp = event.args.timestamp.toNumber();
+          if (timestamp < since) continue;
+          
+          const tx = await provider.getTransaction(event.transactionHash);
+          if (tx.data.toLowerCase().endsWith(tag)) {
+            scores.push({
+              player: event.args.player,
+              score: event.args.score.toNumber(),
+              timestamp
+            });
+          }
+        }
+        
+        const firstBlock = await provider.getBlock(fromBlock);
+        if (fromBlock === 0 || firstBlock.timestamp < since) break;
+        toBlock = fromBlock - 1;
+      }
+      
+      return scores;
+    } catch (error) {
+      console.error("Error getting daily scores:", error);
+      setError("Failed to get daily scores");
+      return [];
+    }
+  };
+
   const value = {
     wallet,
     username,
@@ -480,6 +545,7 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     getAllScores,
     getPlayerScores,
     getTotalScores,
+    getDailyScores,
     exportPrivateKey,
     isSubmittingScore,
     lastTxHash,
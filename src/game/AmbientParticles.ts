@@ -0,0 +1,105 @@
+// Rain, snow and blowing dust drifting over the scene; purely visual, so it never touches the simulation
+
+import { Dimensions } from './GameTypes';
+import { ParticleKind, ThemeParticles } from './Themes';
+
+interface AmbientParticle {
+  x: number;
+  y: number;
+  vx: number; // px per ms
+  vy: number; // px per ms
+  size: number; // px
+}
+
+// Speed and size ranges per kind of particle
+const PARTICLE_MOTION: Record<ParticleKind, { vx: [number, number]; vy: [number, number]; size: [number, number] }> = {
+  rain: { vx: [-0.15, -0.1], vy: [0.8, 1.1], size: [10, 16] }, // Size is the streak length
+  snow: { vx: [-0.03, 0.03], vy: [0.04, 0.1], size: [1, 3] },
+  dust: { vx: [0.2, 0.4], vy: [-0.01, 0.03], size: [1, 2.5] }
+};
+
+// Longest gap between frames that is animated, so particles don't jump after a stall
+const MAX_FRAME_GAP = 100; // ms
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+export class AmbientParticles {
+  private particles: AmbientParticle[] = [];
+  private kind: ParticleKind | null = null;
+  private lastTime: number | null = null;
+
+  // Move the particles on by the game time since the last frame, so they stop while paused
+  public update(settings: ThemeParticles | undefined, dimensions: Dimensions, gameTime: number): void {
+    if (!settings) {
+      this.particles = [];
+      this.kind = null;
+      this.lastTime = null;
+      return;
+    }
+
+    if (settings.kind !== this.kind || this.particles.length !== settings.count) {
+      this.kind = settings.kind;
+      this.particles = Array.from({ length: settings.count }, () =>
+        this.createParticle(settings.kind, Math.random() * dimensions.width, Math.random() * dimensions.height)
+      );
+    }
+
+    // A new run starts the game clock again
+    const elapsed = this.lastTime === null ? 0 : Math.min(Math.max(gameTime - this.lastTime, 0), MAX_FRAME_GAP);
+    this.lastTime = gameTime;
+
+    const { width, height } = dimensions;
+    this.particles.forEach(particle => {
+      particle.x += particle.vx * elapsed;
+      particle.y += particle.vy * elapsed;
+
+      // Wrap around the edges of the play field
+      if (particle.y > height) particle.y -= height + particle.size;
+      if (particle.y < -particle.size) particle.y += height + particle.size;
+      if (particle.x > width) particle.x -= width;
+      if (particle.x < 0) particle.x += width;
+    });
+  }
+
+  public draw(ctx: CanvasRenderingContext2D, settings: ThemeParticles | undefined): void {
+    if (!settings || this.particles.length === 0) return;
+
+    ctx.save();
+    ctx.fillStyle = settings.color;
+    ctx.strokeStyle = settings.color;
+    ctx.lineWidth = 1;
+
+    if (settings.kind === 'rain') {
+      // Streaks along the direction of travel
+      ctx.beginPath();
+      this.particles.forEach(particle => {
+        const speed = Math.hypot(particle.vx, particle.vy);
+        ctx.moveTo(particle.x, particle.y);
+        ctx.lineTo(
+          particle.x - (particle.vx / speed) * particle.size,
+          particle.y - (particle.vy / speed) * particle.size
+        );
+      });
+      ctx.stroke();
+    } else {
+      this.particles.forEach(particle => {
+        ctx.beginPath();
+        ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    ctx.restore();
+  }
+
+  private createParticle(kind: ParticleKind, x: number, y: number): AmbientParticle {
+    const motion = PARTICLE_MOTION[kind];
+    return {
+      x,
+      y,
+      vx: between(motion.vx),
+      vy: between(motion.vy),
+      size: between(motion.size)
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// Pre-rendered static scenery, drawn once per play field and scrolled by offset each frame
+
+import { Dimensions, RoadLayout } from './GameTypes';
+import { SeededRandom } from './SeededRandom';
+import { VisualTheme } from './Themes';
+
+// Fixed seed so the stars and textures look the same on every run
+const SCENERY_SEED = 0x5eed;
+
+// Verge texture grid; ground tiles are a multiple of it high, and road texture grids divide it,
+// so the tile repeats seamlessly
+const GRASS_GRID = 20;
+
+// Offscreen canvas of the play field's size in sim pixels, at the given device resolution
+function createLayer(
+  width: number,
+  height: number,
+  resolution: number
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * resolution);
+  canvas.height = Math.ceil(height * resolution);
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(resolution, resolution);
+  return { canvas, ctx };
+}
+
+export class BackgroundLayers {
+  private key: string = '';
+
+  // Sky and stars, fixed in place
+  private sky: HTMLCanvasElement | null = null;
+
+  // Grass and road surface, repeating vertically
+  private ground: HTMLCanvasElement | null = null;
+  private groundHeight: number = 0;
+
+  // Redraw the layers if the play field, road, resolution or theme changed since the last frame
+  public update(dimensions: Dimensions, layout: RoadLayout, resolution: number, theme: VisualTheme): void {
+    const key = [
+      theme.id,
+      dimensions.width,
+      dimensions.height,
+      layout.laneCount,
+      layout.roadWidth,
+      layout.roadCenterX,
+      resolution
+    ].join(':');
+    if (key === this.key) return;
+
+    this.key = key;
+    const random = new SeededRandom(SCENERY_SEED);
+    this.sky = this.paintSky(dimensions, resolution, theme, random);
+    this.groundHeight = Math.ceil(dimensions.height / GRASS_GRID) * GRASS_GRID;
+    this.ground = this.paintGround(dimensions, layout, resolution, theme, random);
+  }
+
+  public drawSky(ctx: CanvasRenderingContext2D, dimensions: Dimensions): void {
+    if (this.sky) {
+      ctx.drawImage(this.sky, 0, 0, dimensions.width, dimensions.height);
+    }
+  }
+
+  // Ground moved down by the distance the road has scrolled, in sim pixels
+  public drawGround(ctx: CanvasRenderingContext2D, dimensions: Dimensions, scroll: number): void {
+    if (!this.ground) return;
+
+    const height = this.groundHeight;
+    const offset = scroll % height;
+    ctx.drawImage(this.ground, 0, offset - height, dimensions.width, height);
+    ctx.drawImage(this.ground, 0, offset, dimensions.width, height);
+  }
+
+  private paintSky(
+    dimensions: Dimensions,
+    resolution: number,
+    theme: VisualTheme,
+    random: SeededRandom
+  ): HTMLCanvasElement {
+    const { width, height } = dimensions;
+    const { sky, stars } = theme.palette;
+    const { canvas, ctx } = createLayer(width, height, resolution);
+
+    // Draw sky gradient
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, sky[0]);
+    gradient.addColorStop(1, sky[1]);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    if (!stars) return canvas;
+
+    // Draw some stars in the background
+    ctx.fillStyle = stars;
+    for (let i = 0; i < 50; i++) {
+      const x = random.next() * width;
+      const y = random.next() * height * 0.7;
+      const size = random.next() * 2 + 1;
+      ctx.beginPath();
+      ctx.arc(x, y, size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    return canvas;
+  }
+
+  private paintGround(
+    dimensions: Dimensions,
+    layout: RoadLayout,
+    resolution: number,
+    theme: VisualTheme,
+    random: SeededRandom
+  ): HTMLCanvasElement {
+    const { width } = dimensions;
+    const height = this.groundHeight;
+    const { palette, roadTexture } = theme;
+    const { canvas, ctx } = createLayer(width, height, resolution);
+
+    const roadLeft = layout.roadCenterX - layout.roadWidth / 2;
+    const roadRight = layout.roadCenterX + layout.roadWidth / 2;
+
+    // Left side verge
+    const grassGradient = ctx.createLinearGradient(0, 0, roadLeft, 0);
+    grassGradient.addColorStop(0, palette.verge[0]);  // Darker at the edge
+    grassGradient.addColorStop(1, palette.verge[1]);  // Lighter near the road
+
+    ctx.fillStyle = grassGradient;
+    ctx.fillRect(0, 0, roadLeft, height);
+
+    // Right side verge
+    const grassGradient2 = ctx.createLinearGradient(roadRight, 0, width, 0);
+    grassGradient2.addColorStop(0, palette.verge[1]);  // Lighter near the road
+    grassGradient2.addColorStop(1, palette.verge[0]);  // Darker at the edge
+
+    ctx.fillStyle = grassGradient2;
+    ctx.fillRect(roadRight, 0, width - roadRight, height);
+
+    // Add verge texture on both sides
+    ctx.fillStyle = palette.vergeTexture;
+    for (let i = 0; i < width; i += GRASS_GRID) {
+      if (i >= roadLeft && i < roadRight) continue;
+      for (let j = 0; j < height; j += GRASS_GRID) {
+        if (random.next() > 0.8) {
+          ctx.fillRect(i, j, 5, 5);
+        }
+      }
+    }
+
+    // Draw road background with asphalt texture
+    const roadGradient = ctx.createLinearGradient(roadLeft, 0, roadRight, 0);
+    roadGradient.addColorStop(0, palette.road[0]);
+    roadGradient.addColorStop(0.5, palette.road[1]);
+    roadGradient.addColorStop(1, palette.road[0]);
+
+    ctx.fillStyle = roadGradient;
+    ctx.fillRect(roadLeft, 0, layout.roadWidth, height);
+
+    ctx.fillStyle = roadTexture.color;
+    for (let i = roadLeft; i < roadRight; i += roadTexture.grid) {
+      for (let j = 0; j < height; j += roadTexture.grid) {
+        if (random.next() < roadTexture.density) {
+          ctx.fillRect(i, j, roadTexture.size, roadTexture.size);
+        }
+      }
+    }
+
+    // Draw road edges
+    ctx.strokeStyle = palette.roadEdge;
+    ctx.lineWidth = 3;
+
+    ctx.beginPath();
+    ctx.moveTo(roadLeft, 0);
+    ctx.lineTo(roadLeft, height);
+    ctx.moveTo(roadRight, 0);
+    ctx.lineTo(roadRight, height);
+    ctx.stroke();
+
+    return canvas;
+  }
+}
@@ -0,0 +1,76 @@
+// Daily challenge: one shared seed per UTC day and the local history of results
+
+const HISTORY_KEY = 'dailyHistory';
+const MAX_HISTORY = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Result of the ranked attempt for one day; score is null until the run ends
+export interface DailyResult {
+  date: string; // UTC date, YYYY-MM-DD
+  seed: number;
+  difficulty?: string; // Difficulty preset id; missing from results saved before it was kept
+  score: number | null;
+  playedAt: number;
+}
+
+// UTC date key of the challenge running at the given time
+export function getDailyDate(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+// Seed everyone plays on a given date (FNV-1a hash of the date key)
+export function getDailySeed(date: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < date.length; i++) {
+    hash ^= date.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Start of the given date's challenge in ms since epoch
+export function getDailyStart(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+// Time left until the next challenge unlocks
+export function getTimeUntilNextDaily(now: number = Date.now()): number {
+  return getDailyStart(getDailyDate(now)) + DAY_MS - now;
+}
+
+// Past daily results, newest first
+export function loadDailyHistory(): DailyResult[] {
+  try {
+    const saved = localStorage.getItem(HISTORY_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (err) {
+    console.error("Error loading daily history:", err);
+    return [];
+  }
+}
+
+function saveDailyHistory(history: DailyResult[]): void {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, MAX_HISTORY)));
+}
+
+export function getDailyResult(date: string): DailyResult | null {
+  return loadDailyHistory().find(result => result.date === date) ?? null;
+}
+
+// Use up the day's ranked attempt as soon as it starts, so quitting can't retry it
+export function startRankedDaily(date: string, difficulty: string): void {
+  if (getDailyResult(date)) return;
+
+  saveDailyHistory([
+    { date, seed: getDailySeed(date), difficulty, score: null, playedAt: Date.now() },
+    ...loadDailyHistory()
+  ]);
+}
+
+export function finishRankedDaily(date: string, score: number): void {
+  saveDailyHistory(
+    loadDailyHistory().map(result =>
+      result.date === date && result.score === null ? { ...result, score } : result
+    )
+  );
+}
@@ -0,0 +1,121 @@
+// Declarative difficulty curves and the built-in presets
+
+import easyPreset from './difficulty/easy.json';
+import normalPreset from './difficulty/normal.json';
+import hardPreset from './difficulty/hard.json';
+import insanePreset from './difficulty/insane.json';
+
+// [position, value]; position is seconds or metres depending on the curve's axis
+export type Keyframe = [number, number];
+
+export interface DifficultyCurve {
+  id: string;
+  name: string;
+  axis: 'time' | 'distance';
+  interpolation: 'step' | 'linear';
+  speed: Keyframe[]; // Game speed multiplier
+  enemySpawnInterval: Keyframe[]; // ms
+  seedSpawnInterval: Keyframe[]; // ms
+  powerUpSpawnInterval: Keyframe[]; // ms
+  patternWeights?: Record<string, Keyframe[]>; // Relative weight of each traffic pattern
+  archetypeWeights?: Record<string, Keyframe[]>; // Relative weight of each enemy archetype
+  hazardSpawnInterval?: Keyframe[]; // ms; no hazards when omitted
+  hazardWeights?: Record<string, Keyframe[]>; // Relative weight of each hazard
+  bossInterval?: number; // Metres between boss encounters; no bosses when omitted
+}
+
+export const DEFAULT_DIFFICULTY = 'normal';
+
+// Value of a keyframe track at the given position, held flat past either end
+export function sampleKeyframes(
+  keyframes: Keyframe[],
+  position: number,
+  interpolation: DifficultyCurve['interpolation']
+): number {
+  let index = 0;
+  while (index < keyframes.length - 1 && keyframes[index + 1][0] <= position) {
+    index++;
+  }
+
+  const [at, value] = keyframes[index];
+  const next = keyframes[index + 1];
+  if (interpolation === 'step' || !next || position <= at) {
+    return value;
+  }
+
+  const t = (position - at) / (next[0] - at);
+  return value + (next[1] - value) * t;
+}
+
+export function isKeyframeTrack(track: unknown): track is Keyframe[] {
+  return (
+    Array.isArray(track) &&
+    track.length > 0 &&
+    track.every((key, i) =>
+      Array.isArray(key) &&
+      key.length === 2 &&
+      typeof key[0] === 'number' &&
+      typeof key[1] === 'number' &&
+      (i === 0 || key[0] > track[i - 1][0])
+    )
+  );
+}
+
+// Validate curve data loaded from JSON
+export function parseDifficultyCurve(data: unknown): DifficultyCurve {
+  const curve = data as DifficultyCurve;
+
+  if (!curve || typeof curve.id !== 'string' || typeof curve.name !== 'string') {
+    throw new Error('Difficulty curve is missing an id or name');
+  }
+
+  if (curve.axis !== 'time' && curve.axis !== 'distance') {
+    throw new Error(`Difficulty curve "${curve.id}" has an unknown axis`);
+  }
+
+  if (curve.interpolation !== 'step' && curve.interpolation !== 'linear') {
+    throw new Error(`Difficulty curve "${curve.id}" has an unknown interpolation`);
+  }
+
+  const tracks = [curve.speed, curve.enemySpawnInterval, curve.seedSpawnInterval, curve.powerUpSpawnInterval];
+  if (!tracks.every(isKeyframeTrack)) {
+    throw new Error(`Difficulty curve "${curve.id}" has an invalid keyframe track`);
+  }
+
+  if (curve.patternWeights && !Object.values(curve.patternWeights).every(isKeyframeTrack)) {
+    throw new Error(`Difficulty curve "${curve.id}" has invalid pattern weights`);
+  }
+
+  if (curve.archetypeWeights && !Object.values(curve.archetypeWeights).every(isKeyframeTrack)) {
+    throw new Error(`Difficulty curve "${curve.id}" has invalid archetype weights`);
+  }
+
+  if (curve.hazardSpawnInterval && !isKeyframeTrack(curve.hazardSpawnInterval)) {
+    throw new Error(`Difficulty curve "${curve.id}" has an invalid hazard spawn interval`);
+  }
+
+  if (curve.hazardWeights && !Object.values(curve.hazardWeights).every(isKeyframeTrack)) {
+    throw new Error(`Difficulty curve "${curve.id}" has invalid hazard weights`);
+  }
+
+  if (curve.bossInterval !== undefined && !(typeof curve.bossInterval === 'number' && curve.bossInterval > 0)) {
+    throw new Error(`Difficulty curve "${curve.id}" has an invalid boss interval`);
+  }
+
+  return curve;
+}
+
+export const DIFFICULTY_PRESETS: DifficultyCurve[] = [
+  easyPreset,
+  normalPreset,
+  hardPreset,
+  insanePreset
+].map(parseDifficultyCurve);
+
+// Look up a preset by id, falling back to Normal
+export function getDifficultyPreset(id: string | null): DifficultyCurve {
+  return (
+    DIFFICULTY_PRESETS.find(preset => preset.id === id) ??
+    DIFFICULTY_PRESETS.find(preset => preset.id === DEFAULT_DIFFICULTY)
+  );
+}
@@ -0,0 +1,50 @@
+// Enemy vehicle archetypes: size, speed, collision box and behaviour
+
+export interface EnemyArchetype {
+  id: string;
+  width: number; // Fraction of the lane width
+  aspectRatio: number; // Width / height
+  speed: number; // Multiplier on the road speed
+  hitbox: { x: number; y: number }; // Inset from each side, as a fraction of width and height
+  sprite?: number; // Index into the enemy sprites; random when omitted
+  barrier?: boolean; // Drawn as a road barrier instead of a car sprite
+  changesLane?: boolean; // Signals, then moves into a neighbouring lane
+  crate?: boolean; // Drawn as a wooden crate instead of a car sprite
+  siren?: boolean; // Flashing police light bar on the roof
+}
+
+// Lane changers indicate for this long after entering the road, then move over
+export const LANE_CHANGE_SIGNAL = 900; // ms
+export const LANE_CHANGE_DURATION = 600; // ms
+
+// Space kept between a car and a slower one it catches up with
+export const FOLLOW_GAP = 12; // px
+
+export const ENEMY_ARCHETYPES: EnemyArchetype[] = [
+  { id: 'car', width: 0.9, aspectRatio: 0.7, speed: 1, hitbox: { x: 0.14, y: 0.1 } },
+  { id: 'truck', width: 0.95, aspectRatio: 0.38, speed: 0.7, hitbox: { x: 0.1, y: 0.05 }, sprite: 0 },
+  { id: 'speeder', width: 0.75, aspectRatio: 0.6, speed: 1.6, hitbox: { x: 0.16, y: 0.12 }, sprite: 1 },
+  {
+    id: 'lane-changer',
+    width: 0.9,
+    aspectRatio: 0.7,
+    speed: 0.9,
+    hitbox: { x: 0.14, y: 0.1 },
+    sprite: 2,
+    changesLane: true
+  },
+  { id: 'roadblock', width: 0.95, aspectRatio: 3, speed: 1, hitbox: { x: 0.04, y: 0.15 }, barrier: true },
+  // Boss drops; curves don't weight these, so they never turn up in normal traffic
+  { id: 'crate', width: 0.6, aspectRatio: 1, speed: 1, hitbox: { x: 0.08, y: 0.08 }, crate: true },
+  { id: 'police', width: 0.9, aspectRatio: 0.7, speed: 0.6, hitbox: { x: 0.14, y: 0.1 }, sprite: 0, siren: true }
+];
+
+// Used when a difficulty curve doesn't weight the archetypes itself
+export const DEFAULT_ARCHETYPE_WEIGHTS: Record<string, number> = {
+  car: 1
+};
+
+// Look up an archetype by id, falling back to a plain car
+export function getEnemyArchetype(id: string | undefined): EnemyArchetype {
+  return ENEMY_ARCHETYPES.find(archetype => archetype.id === id) ?? ENEMY_ARCHETYPES[0];
+}
@@ -0,0 +1,42 @@
+// Rolling render-time measurements against a per-frame budget
+
+// Time a frame's drawing may take and still leave a low-end phone room for the simulation at 60 fps
+export const FRAME_BUDGET = 8; // ms
+
+// Frames the statistics cover, about two seconds at 60 fps
+const SAMPLE_COUNT = 120;
+
+export interface FrameStats {
+  average: number; // ms
+  worst: number; // ms
+  budget: number; // ms
+  overBudget: number; // Fraction of frames that took longer than the budget
+}
+
+export class FrameTimer {
+  private samples: number[] = [];
+  private next: number = 0;
+
+  public record(duration: number): void {
+    if (this.samples.length < SAMPLE_COUNT) {
+      this.samples.push(duration);
+    } else {
+      this.samples[this.next] = duration;
+    }
+    this.next = (this.next + 1) % SAMPLE_COUNT;
+  }
+
+  public getStats(): FrameStats {
+    const samples = this.samples;
+    if (samples.length === 0) {
+      return { average: 0, worst: 0, budget: FRAME_BUDGET, overBudget: 0 };
+    }
+
+    return {
+      average: samples.reduce((sum, duration) => sum + duration, 0) / samples.length,
+      worst: Math.max(...samples),
+      budget: FRAME_BUDGET,
+      overBudget: samples.filter(duration => duration > FRAME_BUDGET).length / samples.length
+    };
+  }
+}
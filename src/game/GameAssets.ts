@@ -0,0 +1,5 @@
+// Default image assets shared by every screen that runs the engine
+
+export const DEFAULT_PLAYER_CAR = '/playercar.png';
+export const DEFAULT_ENEMY_CARS = ['/enemycar1.png', '/enemycar2.png', '/enemycar3.png'];
+export const SEED_IMAGE = '/seed.png';
@@ -1,97 +1,87 @@
-// Main game engine class
-
-export enum GameState {
-  MODE_SELECTION, // New state for mode selection
-  USERNAME_CREATION, // New state for username creation
-  START_SCREEN,
-  GAMEPLAY,
-  PAUSED,
-  GAME_OVER
-}
-
-export enum PowerUpType {
-  SLOW_SPEED,
-  SHIELD,
-  EXTRA_LIFE
-}
-
-export enum GameMode {
-  ONLINE = 'online',
-  ONCHAIN = 'onchain',
-  NONE = 'none'
-}
-
-// Interface for user profile
-export interface UserProfile {
-  username: string;
-  gameMode: GameMode;
-  // Add more user stats here in the future
-}
-
-// Extended GameObject interface to include powerUpType for power-ups
-export interface GameObject {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  lane: number;
-  active: boolean;
-  type?: string;
-  powerUpType?: PowerUpType; // Ensure this is defined in the interface
-  update: (delta: number) => void;
-  render: (ctx: CanvasRenderingContext2D) => void;
-}
-
-export interface PlayerCar extends GameObject {
-  lives: number;
-  shield: boolean;
-  shieldTimer: number;
-  lanePosition: number;
-  targetLane: number;
-  transitioning: boolean;
-}
-
-// New interface for explosion particles
-export interface ExplosionParticle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  size: number;
-  color: string;
-  alpha: number;
-  lifetime: number;
-  currentLife: number;
-}
-
-// New interface for road marking
-export interface RoadMarking {
-  y: number;
-  active: boolean;
-  update: (delta: number) => void;
-  render: (ctx: CanvasRenderingContext2D) => void;
-}
-
-// New interface for decorative elements
-export interface Decoration {
-  x: number;
-  y: number;
-  type: 'tree' | 'bush';
-  size: number;
-  active: boolean;
-  update: (delta: number) => void;
-  render: (ctx: CanvasRenderingContext2D) => void;
-}
+// Main game engine class - browser glue around the headless simulation
+
+import { GameState, GameMode, InputAction, PowerUpType, Dimensions, NearMiss, RunResult, ScoreBreakdown, ActivePowerUp, HazardKind, ScriptedEvent, StageRun, WeatherKind } from './GameTypes';
+import { createRandomSeed } from './SeededRandom';
+import { GameSimulation, SimulationTuning, TIME_STEP, DEFAULT_LANE_COUNT, clampLaneCount } from './GameSimulation';
+import { GameRenderer } from './GameRenderer';
+import { FrameStats, FrameTimer } from './FrameTimer';
+import { Replay, ReplayInputCursor, ReplayRecorder, ReplaySetup } from './Replay';
+import { DEFAULT_DIFFICULTY, DifficultyCurve, getDifficultyPreset } from './DifficultyCurve';
+import { StageDefinition } from './Stages';
+import { ENDLESS_RULES, RuleSet, getRuleSet } from './GameRules';
+import { DEFAULT_THEME, STAGE_THEME_IDS, ThemeId, getTheme, getThemeAt } from './Themes';
+
+export {
+  GameState,
+  PowerUpType,
+  GameMode,
+  InputAction
+} from './GameTypes';
+export type {
+  UserProfile,
+  Dimensions,
+  RoadLayout,
+  GameObject,
+  EnemyCar,
+  EnemyLaneChange,
+  Hazard,
+  HazardKind,
+  OilSlick,
+  Boss,
+  SpawnChannel,
+  ScriptedEventPhase,
+  ScriptedEvent,
+  StageTheme,
+  StageRun,
+  StageResult,
+  WeatherKind,
+  WeatherState,
+  PlayerCar,
+  ExplosionParticle,
+  RoadMarking,
+  Decoration,
+  RunResult,
+  ScoreBreakdown,
+  NearMiss,
+  QueuedSpawn,
+  ActivePowerUp,
+  WorldState
+} from './GameTypes';
+
+// Device pixels per CSS pixel the canvas is drawn at, at most; higher is sharper but slower
+export const DEFAULT_MAX_PIXEL_RATIO = 2;
 
 export interface GameConfig {
-  canvas: HTMLCanvasElement;
+  canvas: HTMLCanvasElement; // Its width and height on creation are taken as its size in CSS pixels
   onScoreChange: (score: number) => void;
   onLivesChange: (lives: number) => void;
+  onTimeLeftChange?: (timeLeft: number) => void; // ms left on the clock in timed runs
   onGameStateChange: (state: GameState) => void;
   onPowerUpStart: (type: PowerUpType, duration: number) => void;
   onPowerUpEnd: (type: PowerUpType) => void;
   onCollision?: () => void; // Collision sound callback
   onSeedCollect?: () => void; // Seed collection sound callback
+  onGameOver?: (result: RunResult) => void; // Final score and the seed it was played on
+  onGhostScoreChange?: (score: number | null) => void; // Ghost car score, null when no ghost
+  onScoreBreakdown?: (breakdown: ScoreBreakdown) => void; // Points per source when a run ends
+  onComboChange?: (streak: number, multiplier: number) => void; // Seed streak and score multiplier
+  onNearMiss?: (nearMiss: NearMiss) => void; // Close call with an enemy and the bonus it earned
+  onActivePowerUpsChange?: (active: ActivePowerUp[]) => void; // Timed effects with their remaining time
+  onPowerUpOverflow?: (type: PowerUpType, points: number) => void; // Capped pickup converted to points
+  onHazardHit?: (kind: HazardKind) => void; // Oil slick, pothole or construction zone hit
+  onScriptedEventChange?: (event: ScriptedEvent | null) => void; // Boss encounter phase changes, null once over
+  onScriptedEventEnd?: (id: string, reward: number) => void; // Boss encounter survived
+  onStageProgress?: (stage: StageRun) => void; // Campaign stage distance, seeds or damage changed
+  onThemeChange?: (theme: ThemeId) => void; // Visual theme moved on at a distance milestone
+  onWeatherChange?: (weather: WeatherKind) => void; // New weather moving in on the road
+  seed?: number; // Play every run on this seed instead of a random one
+  laneCount?: number; // Lanes on the road, 2-6 (defaults to 3)
+  difficulty?: DifficultyCurve; // Defaults to the Normal preset
+  rules?: RuleSet; // Defaults to endless
+  weather?: boolean; // Changing weather on the endless road (defaults to off)
+  maxPixelRatio?: number; // Quality cap on the device pixel ratio (defaults to 2)
+  theme?: ThemeId; // Visual theme of the endless road (defaults to day)
+  themeCycle?: boolean; // Move on to the next theme at every distance milestone
   customAssets?: {
     playerCarURL: string;
     enemyCarURLs: string[];
@@ -107,19 +97,29 @@ export class GameEngine {
   private lastFrameTime: number = 0;
   private accumulatedTime: number = 0;
   
-  // Game objects
-  private player: PlayerCar | null = null;
-  private enemies: GameObject[] = [];
-  private seeds: GameObject[] = [];
-  private powerUps: GameObject[] = [];
+  // Canvas size in CSS pixels, the space the simulation is laid out in, and the device pixels
+  // per CSS pixel its backing store is drawn at
+  private viewport: Dimensions;
+  private pixelRatio: number = 1;
+  private maxPixelRatio: number;
   
-  // Road elements
-  private roadMarkings: RoadMarking[] = [];
-  private decorations: Decoration[] = [];
+  // Simulation and renderer
+  private simulation: GameSimulation;
+  private renderer: GameRenderer;
+  private frameTimer: FrameTimer = new FrameTimer();
   
   // Game images
   private playerCarImage: HTMLImageElement;
   private enemyCarImages: HTMLImageElement[] = [];
+  private enemyVariants: number; // Number of configured enemy sprites
+  private laneCount: number;
+  private difficulty: DifficultyCurve;
+  private stage: StageDefinition | null = null; // Campaign stage, null for the endless road
+  private rules: RuleSet;
+  private weather: boolean;
+  private theme: ThemeId;
+  private themeCycle: boolean;
+  private shownTheme: ThemeId | null = null; // Theme of the last frame drawn
   private seedImage: HTMLImageElement | null = null; // Added seed image
   private playerCarLoaded: boolean = false;
   private enemyCarLoaded: boolean = false;
@@ -127,50 +127,36 @@ export class GameEngine {
   private imagesLoaded: boolean = false;
   private imageLoadErrors: boolean = false;
   
-  // Explosion animation
-  private explosions: ExplosionParticle[] = [];
+  // Event callbacks
+  private onGameStateChange: (state: GameState) => void;
+  private onGameOver?: (result: RunResult) => void;
+  private onGhostScoreChange?: (score: number | null) => void;
+  private onThemeChange?: (theme: ThemeId) => void;
   
-  // Game parameters
-  private score: number = 0;
-  private gameSpeed: number = 1;
-  private laneWidth: number = 0;
-  private roadWidth: number = 0;
-  private roadCenterX: number = 0;
-  private lanePositions: number[] = [];
-  private enemySpawnTimer: number = 0;
-  private enemySpawnInterval: number = 2000; // ms
-  private seedSpawnTimer: number = 0;
-  private seedSpawnInterval: number = 1000; // ms
-  private powerUpSpawnTimer: number = 0;
-  private powerUpSpawnInterval: number = 15000; // ms
-  private difficultyTimer: number = 0;
-  private difficultyInterval: number = 30000; // ms
-  private gameTime: number = 0;
-  private decorationSpawnTimer: number = 0;
-  private decorationSpawnInterval: number = 800; // ms
-  private roadMarkingTimer: number = 0;
-  private roadMarkingInterval: number = 300; // ms
+  // Seed to use for every run, if configured
+  private fixedSeed?: number;
   
-  // Power-up states
-  private slowModeActive: boolean = false;
-  private slowModeTimer: number = 0;
-  private slowModeDuration: number = 5000; // ms
+  // Recording of the live run, and the last finished one
+  private recorder: ReplayRecorder | null = null;
+  private lastReplay: Replay | null = null;
   
-  // Event callbacks
-  private onScoreChange: (score: number) => void;
-  private onLivesChange: (lives: number) => void;
-  private onGameStateChange: (state: GameState) => void;
-  private onPowerUpStart: (type: PowerUpType, duration: number) => void;
-  private onPowerUpEnd: (type: PowerUpType) => void;
+  // Replay playback state
+  private replay: Replay | null = null;
+  private replayCursor: ReplayInputCursor | null = null;
+  private replayPaused: boolean = false;
+  private playbackRate: number = 1;
   
-  // Add new collision callback
-  private onCollision?: () => void;
-
-  private onSeedCollect?: () => void;
+  // Ghost car: a second simulation replaying a previous run in lockstep
+  private ghostReplays: Replay[] = [];
+  private ghostSimulation: GameSimulation | null = null;
+  private ghostCursor: ReplayInputCursor | null = null;
   
   // Animation frame id for cleanup
   private animationFrameId: number | null = null;
   
+  // Bound keyboard handler so it can be removed again
+  private keyDownHandler = (e: KeyboardEvent) => this.handleKeyDown(e);
+  
   // Option to use defaults if image is broken
   private useDefaultsIfBroken: boolean = false;
 
@@ -180,19 +166,55 @@ export class GameEngine {
   constructor(config: GameConfig) {
     this.canvas = config.canvas;
     this.ctx = this.canvas.getContext('2d')!;
+    this.maxPixelRatio = config.maxPixelRatio ?? DEFAULT_MAX_PIXEL_RATIO;
+    this.setCanvasSize(this.canvas.width, this.canvas.height);
     
     // Set callbacks
-    this.onScoreChange = config.onScoreChange;
-    this.onLivesChange = config.onLivesChange;
     this.onGameStateChange = config.onGameStateChange;
-    this.onPowerUpStart = config.onPowerUpStart;
-    this.onPowerUpEnd = config.onPowerUpEnd;
-    this.onCollision = config.onCollision; // Set collision callback
-    this.onSeedCollect = config.onSeedCollect; // Add this line
-
-    
-    // Initialize game dimensions
-    this.calculateDimensions();
+    this.onGameOver = config.onGameOver;
+    this.onGhostScoreChange = config.onGhostScoreChange;
+    this.onThemeChange = config.onThemeChange;
+    this.enemyVariants = config.customAssets?.enemyCarURLs.length ?? 0;
+    this.laneCount = clampLaneCount(config.laneCount ?? DEFAULT_LANE_COUNT);
+    this.difficulty = config.difficulty ?? getDifficultyPreset(DEFAULT_DIFFICULTY);
+    this.rules = config.rules ?? ENDLESS_RULES;
+    this.weather = config.weather ?? false;
+    this.theme = config.theme ?? DEFAULT_THEME;
+    this.themeCycle = config.themeCycle ?? false;
+    this.fixedSeed = config.seed;
+    
+    // Create the simulation for the current canvas size
+    this.simulation = new GameSimulation(
+      this.getCanvasDimensions(),
+      {
+        onScoreChange: config.onScoreChange,
+        onLivesChange: config.onLivesChange,
+        onTimeLeftChange: config.onTimeLeftChange,
+        onPowerUpStart: config.onPowerUpStart,
+        onPowerUpEnd: config.onPowerUpEnd,
+        onCollision: config.onCollision, // Set collision callback
+        onSeedCollect: config.onSeedCollect,
+        onScoreBreakdown: config.onScoreBreakdown,
+        onComboChange: config.onComboChange,
+        onNearMiss: config.onNearMiss,
+        onActivePowerUpsChange: config.onActivePowerUpsChange,
+        onPowerUpOverflow: config.onPowerUpOverflow,
+        onHazardHit: config.onHazardHit,
+        onScriptedEventChange: config.onScriptedEventChange,
+        onScriptedEventEnd: config.onScriptedEventEnd,
+        onStageProgress: config.onStageProgress,
+        onWeatherChange: config.onWeatherChange,
+        onGameOver: (result) => this.gameOver(result)
+      },
+      {
+        enemyVariants: this.enemyVariants,
+        seed: config.seed,
+        laneCount: this.laneCount,
+        difficulty: this.difficulty,
+        rules: this.rules,
+        weather: this.weather
+      }
+    );
     
     // Set flag for fallbacks
     if (config.customAssets?.useDefaultsIfBroken) {
@@ -302,10 +324,15 @@ export class GameEngine {
       this.seedImageLoaded = true;
       this.imageLoadErrors = true;
       this.imagesLoaded = true;
-      // Initialize player after images are loaded or failed
-      this.player = this.createPlayer();
     }
     
+    // The renderer shares the image objects, which fill in as they load
+    this.renderer = new GameRenderer(this.ctx, {
+      playerCarImage: this.playerCarImage,
+      enemyCarImages: this.enemyCarImages,
+      seedImage: this.seedImage
+    });
+    
     // Set up event listeners
     this.setupEventListeners();
 
@@ -345,19 +372,111 @@ export class GameEngine {
     return mode || GameMode.ONLINE;
   }
 
-  public resizeCanvas(): void {
-    this.calculateDimensions();
-    // If player exists, update its position based on new dimensions
-    if (this.player) {
-      this.player.lanePosition = this.lanePositions[this.player.lane];
-      this.player.x = this.player.lanePosition - (this.player.width / 2);
-    }
+  private getCanvasDimensions(): Dimensions {
+    return { ...this.viewport };
+  }
+
+  // Size the backing store for the display, so the game stays sharp on high-density screens
+  // while the simulation keeps working in CSS pixels
+  private setCanvasSize(width: number, height: number): void {
+    this.viewport = { width, height };
+    this.pixelRatio = Math.max(1, Math.min(window.devicePixelRatio || 1, this.maxPixelRatio));
+    
+    this.canvas.width = Math.round(width * this.pixelRatio);
+    this.canvas.height = Math.round(height * this.pixelRatio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+  }
+  
+  // Cap on the device pixel ratio, applied straight away
+  public setMaxPixelRatio(maxPixelRatio: number): void {
+    this.maxPixelRatio = maxPixelRatio;
+    this.setCanvasSize(this.viewport.width, this.viewport.height);
+  }
+
+  // New canvas size in CSS pixels
+  public resizeCanvas(width: number, height: number): void {
+    this.setCanvasSize(width, height);
+    
+    // A run keeps its dimensions so it stays reproducible; the renderer scales it to fit
+    if (this.isRunInProgress()) return;
+    
+    // Update the simulation layout; the player is re-centred in its lane
+    this.simulation.resize(this.getCanvasDimensions());
+  }
+
+  private isRunInProgress(): boolean {
+    return this.gameState === GameState.GAMEPLAY || this.gameState === GameState.PAUSED;
   }
 
   public getHighScore(): number {
     return this.highScore;
   }
 
+  // How long recent frames took to draw, against the frame budget
+  public getFrameStats(): FrameStats {
+    return this.frameTimer.getStats();
+  }
+
+  // Seed of the current (or last) run
+  public getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  // Replay of the last finished live run
+  public getLastReplay(): Replay | null {
+    return this.lastReplay;
+  }
+
+  // Lane count for runs started from now on
+  public setLaneCount(laneCount: number): void {
+    this.laneCount = clampLaneCount(laneCount);
+  }
+
+  // Difficulty curve for runs started from now on, switching the high score over to its own
+  public setDifficulty(difficulty: DifficultyCurve): void {
+    this.difficulty = difficulty;
+    this.loadHighScore();
+  }
+
+  // Rule set for runs started from now on, switching the high score over to its own
+  public setRules(rules: RuleSet): void {
+    this.rules = rules;
+    this.loadHighScore();
+  }
+
+  // Changing weather for endless runs started from now on
+  public setWeather(enabled: boolean): void {
+    this.weather = enabled;
+  }
+
+  // Live overrides for practice runs, applied straight away; null follows the curve again
+  public setTuning(tuning: SimulationTuning | null): void {
+    this.simulation.setTuning(tuning);
+    
+    // A run tuned part way through can't be replayed
+    if (tuning) {
+      this.recorder = null;
+    }
+  }
+
+  // Visual theme, applied straight away; cycling moves through the themes as the run goes on
+  public setTheme(theme: ThemeId, cycle: boolean): void {
+    this.theme = theme;
+    this.themeCycle = cycle;
+  }
+
+  // Campaign stage for runs started from now on; null goes back to the endless road
+  public setStage(stage: StageDefinition | null): void {
+    this.stage = stage;
+  }
+
+  // Race against a recorded run from the next start, the first in the list that suits the run;
+  // an empty list disables the ghost
+  public setGhostReplays(replays: Replay[]): void {
+    this.ghostReplays = replays;
+  }
+
   public cleanup(): void {
     // Cancel animation frame if it exists
     if (this.animationFrameId !== null) {
@@ -369,9 +488,9 @@ export class GameEngine {
     this.removeEventListeners();
   }
 
-  public startGame(): void {
+  public startGame(seed?: number): void {
     // Reset game state
-    this.resetGame();
+    this.resetGame(seed);
     
     // Start game loop
     this.gameState = GameState.GAMEPLAY;
@@ -384,6 +503,24 @@ export class GameEngine {
     }
   }
 
+  // Try out an authored stage from part way along it, for the level editor
+  public startPreview(stage: StageDefinition, distance: number = 0): void {
+    this.stage = stage;
+    this.resetGame();
+    
+    // A run that skipped ahead can't be replayed
+    this.recorder = null;
+    this.simulation.skipTo(distance);
+    
+    this.gameState = GameState.GAMEPLAY;
+    this.onGameStateChange(GameState.GAMEPLAY);
+    
+    if (this.animationFrameId === null) {
+      this.lastFrameTime = performance.now();
+      this.gameLoop();
+    }
+  }
+
   public handleTouchLeft(): void {
     this.movePlayerLeft();
   }
@@ -394,6 +531,7 @@ export class GameEngine {
   
   public pauseGame(): void {
     if (this.gameState === GameState.GAMEPLAY) {
+      this.recordInput(InputAction.PAUSE);
       this.gameState = GameState.PAUSED;
       this.onGameStateChange(GameState.PAUSED);
     }
@@ -401,13 +539,14 @@ export class GameEngine {
   
   public resumeGame(): void {
     if (this.gameState === GameState.PAUSED) {
+      this.recordInput(InputAction.RESUME);
       this.gameState = GameState.GAMEPLAY;
       this.onGameStateChange(GameState.GAMEPLAY);
       this.lastFrameTime = performance.now();
     }
   }
   
-  public restartGame(): void {
+  public restartGame(seed?: number): void {
     // If user doesn't have a username, start with mode selection
     if (!this.hasStoredUsername()) {
       this.gameState = GameState.MODE_SELECTION;
@@ -415,7 +554,7 @@ export class GameEngine {
       return;
     }
     
-    this.resetGame();
+    this.resetGame(seed);
     this.gameState = GameState.GAMEPLAY;
     this.onGameStateChange(GameState.GAMEPLAY);
     this.lastFrameTime = performance.now();
@@ -426,15 +565,15 @@ export class GameEngine {
   }
   
   private setupEventListeners(): void {
-    window.addEventListener('keydown', this.handleKeyDown.bind(this));
+    window.addEventListener('keydown', this.keyDownHandler);
   }
 
   private removeEventListeners(): void {
-    window.removeEventListener('keydown', this.handleKeyDown.bind(this));
+    window.removeEventListener('keydown', this.keyDownHandler);
   }
 
   private handleKeyDown(e: KeyboardEvent): void {
-    if (this.gameState !== GameState.GAMEPLAY) return;
+    if (this.gameState !== GameState.GAMEPLAY || this.replay) return;
     
     switch (e.key) {
       case 'ArrowLeft':
@@ -451,1340 +590,327 @@ export class GameEngine {
   }
 
   private movePlayerLeft(): void {
-    if (!this.player || this.player.transitioning || this.gameState !== GameState.GAMEPLAY) return;
-    
-    if (this.player.lane > 0) {
-      this.player.targetLane = this.player.lane - 1;
-      this.player.transitioning = true;
-    }
+    if (this.gameState !== GameState.GAMEPLAY || this.replay) return;
+    this.recordInput(InputAction.MOVE_LEFT);
+    this.simulation.queueInput(InputAction.MOVE_LEFT);
   }
 
   private movePlayerRight(): void {
-    if (!this.player || this.player.transitioning || this.gameState !== GameState.GAMEPLAY) return;
-    
-    if (this.player.lane < 2) {
-      this.player.targetLane = this.player.lane + 1;
-      this.player.transitioning = true;
+    if (this.gameState !== GameState.GAMEPLAY || this.replay) return;
+    this.recordInput(InputAction.MOVE_RIGHT);
+    this.simulation.queueInput(InputAction.MOVE_RIGHT);
+  }
+
+  // Log an input against the tick it will be applied after
+  private recordInput(action: InputAction): void {
+    if (this.recorder) {
+      this.recorder.record(this.simulation.getWorld().tick, action);
     }
   }
 
   private togglePause(): void {
     if (this.gameState === GameState.GAMEPLAY) {
+      this.recordInput(InputAction.PAUSE);
       this.gameState = GameState.PAUSED;
       this.onGameStateChange(GameState.PAUSED);
     } else if (this.gameState === GameState.PAUSED) {
+      this.recordInput(InputAction.RESUME);
       this.gameState = GameState.GAMEPLAY;
       this.onGameStateChange(GameState.GAMEPLAY);
       this.lastFrameTime = performance.now();
     }
   }
 
-  private resetGame(): void {
-    // Reset game parameters
-    this.score = 0;
-    this.onScoreChange(this.score);
-    this.gameSpeed = 1;
-    this.gameTime = 0;
-    
-    // Clear game objects
-    this.enemies = [];
-    this.seeds = [];
-    this.powerUps = [];
-    this.explosions = [];
-    this.roadMarkings = [];
-    this.decorations = [];
+  private resetGame(seed?: number): void {
+    // Leave replay mode if a live run is started
+    this.replay = null;
+    this.replayCursor = null;
+    this.replayPaused = false;
+    this.playbackRate = 1;
     
-    // Reset timers
-    this.enemySpawnTimer = 0;
-    this.seedSpawnTimer = 0;
-    this.powerUpSpawnTimer = 0;
-    this.difficultyTimer = 0;
-    this.decorationSpawnTimer = 0;
-    this.roadMarkingTimer = 0;
+    // Stages are always played under the endless rules, and in the dry
+    const rules = this.stage ? ENDLESS_RULES : this.rules;
+    const weather = !this.stage && this.weather;
     
-    // Reset power-up states
-    this.slowModeActive = false;
-    this.slowModeTimer = 0;
-    
-    // Create player if it doesn't exist
-    if (!this.player) {
-      this.player = this.createPlayer();
+    // A ghost only races on the road it was recorded on, the endless road or the same stage,
+    // under the same rules, difficulty and weather
+    const ghostReplay = this.ghostReplays.find(replay =>
+      replay.stage?.id === this.stage?.id &&
+      replay.rules === rules.id &&
+      replay.difficulty.id === this.difficulty.id &&
+      replay.weather === weather
+    );
+    if (ghostReplay) {
+      // Share the ghost's seed and play field so traffic is identical
+      this.loadRunSetup(ghostReplay);
+      this.startGhost(ghostReplay);
     } else {
-      // Reset player
-      this.player.lives = 3;
-      this.player.shield = false;
-      this.player.shieldTimer = 0;
-      this.player.lane = 1;
-      this.player.lanePosition = this.lanePositions[1];
-      this.player.targetLane = 1;
-      this.player.transitioning = false;
-      this.player.x = this.player.lanePosition - (this.player.width / 2);
-      this.player.active = true;
-    }
-    
-    // Initialize road markings
-    this.initRoadMarkings();
-    
-    this.onLivesChange(this.player.lives);
-  }
-
-  private initRoadMarkings(): void {
-    // Add initial road markings
-    const markingsPerScreen = Math.ceil(this.canvas.height / 80) + 1;
-    for (let i = 0; i < markingsPerScreen; i++) {
-      this.createRoadMarking(i * 80);
-    }
-  }
-
-  private loadHighScore(): void {
-    const savedHighScore = localStorage.getItem('highScore');
-    if (savedHighScore) {
-      this.highScore = parseInt(savedHighScore, 10);
-    }
-  }
-
-  private saveHighScore(): void {
-    if (this.score > this.highScore) {
-      this.highScore = this.score;
-      localStorage.setItem('highScore', this.highScore.toString());
-    }
-  }
-
-  private gameLoop(): void {
-    const currentTime = performance.now();
-    const deltaTime = currentTime - this.lastFrameTime;
-    this.lastFrameTime = currentTime;
-    
-    // Don't update if game is paused
-    if (this.gameState === GameState.GAMEPLAY) {
-      this.update(deltaTime);
-    }
-    
-    this.render();
-    
-    // Continue game loop
-    this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this));
-  }
-
-  private update(deltaTime: number): void {
-    // Update game time
-    this.gameTime += deltaTime;
-    
-    // Accumulate time for fixed time step updates
-    this.accumulatedTime += deltaTime;
-    
-    // Update at fixed time steps
-    const timeStep = 16; // ~60 fps
-    while (this.accumulatedTime >= timeStep) {
-      this.updateGameState(timeStep);
-      this.accumulatedTime -= timeStep;
-    }
-  }
-
-  private updateGameState(deltaTime: number): void {
-    // Update player
-    if (this.player) {
-      this.player.update(deltaTime);
-    }
-    
-    // Update enemies
-    this.enemies.forEach(enemy => enemy.update(deltaTime));
-    this.enemies = this.enemies.filter(enemy => enemy.active);
-    
-    // Update seeds
-    this.seeds.forEach(seed => seed.update(deltaTime));
-    this.seeds = this.seeds.filter(seed => seed.active);
-    
-    // Update power-ups
-    this.powerUps.forEach(powerUp => powerUp.update(deltaTime));
-    this.powerUps = this.powerUps.filter(powerUp => powerUp.active);
-    
-    // Update road markings
-    this.roadMarkings.forEach(marking => marking.update(deltaTime));
-    this.roadMarkings = this.roadMarkings.filter(marking => marking.active);
-    
-    // Update decorations
-    this.decorations.forEach(decoration => decoration.update(deltaTime));
-    this.decorations = this.decorations.filter(decoration => decoration.active);
-    
-    // Update explosions
-    this.updateExplosions(deltaTime);
-    
-    // Check collisions
-    this.checkCollisions();
-    
-    // Spawn game objects
-    this.updateSpawns(deltaTime);
-    
-    // Update power-up timers
-    this.updatePowerUps(deltaTime);
-    
-    // Update difficulty
-    this.updateDifficulty(deltaTime);
-  }
-
-  private updateExplosions(deltaTime: number): void {
-    // Update explosion particles
-    this.explosions.forEach(particle => {
-      particle.x += particle.vx * deltaTime * 0.05;
-      particle.y += particle.vy * deltaTime * 0.05;
-      particle.currentLife -= deltaTime;
-      particle.alpha = particle.currentLife / particle.lifetime;
+      // Start a fresh run in the simulation, seeded so it can be reproduced; stages bring their own
+      this.loadRunSetup({
+        seed: this.stage?.seed ?? seed ?? this.fixedSeed ?? createRandomSeed(),
+        dimensions: this.getCanvasDimensions(),
+        enemyVariants: this.enemyVariants,
+        laneCount: this.stage?.laneCount ?? this.laneCount,
+        difficulty: this.difficulty,
+        stage: this.stage ?? undefined,
+        rules: rules.id,
+        weather
+      });
+      this.stopGhost();
+    }
+    
+    this.recorder = this.simulation.getTuning() ? null : new ReplayRecorder({
+      seed: this.simulation.getSeed(),
+      dimensions: this.simulation.getDimensions(),
+      enemyVariants: this.simulation.getEnemyVariants(),
+      laneCount: this.simulation.getLaneCount(),
+      difficulty: this.simulation.getDifficulty(),
+      stage: this.simulation.getStage() ?? undefined,
+      rules: this.simulation.getRules().id,
+      weather: this.simulation.getWeatherEnabled()
     });
-    
-    // Remove expired particles
-    this.explosions = this.explosions.filter(particle => particle.currentLife > 0);
   }
 
-  private checkCollisions(): void {
-    if (!this.player || this.gameState !== GameState.GAMEPLAY) return;
-    
-    // Check enemy collisions - use a smaller collision box for more precise collisions
-    this.enemies.forEach(enemy => {
-      const collisionMargin = 10; // Reduce collision box size by this amount on each side
-      
-      // Create tighter collision box for more precise collision detection
-      const playerBox = {
-        x: this.player!.x + collisionMargin,
-        y: this.player!.y + collisionMargin,
-        width: this.player!.width - (collisionMargin * 2),
-        height: this.player!.height - (collisionMargin * 2)
-      };
-      
-      const enemyBox = {
-        x: enemy.x + collisionMargin,
-        y: enemy.y + collisionMargin,
-        width: enemy.width - (collisionMargin * 2),
-        height: enemy.height - (collisionMargin * 2)
-      };
-      
-      // Check if the tighter boxes are colliding
-      if (
-        playerBox.x < enemyBox.x + enemyBox.width &&
-        playerBox.x + playerBox.width > enemyBox.x &&
-        playerBox.y < enemyBox.y + enemyBox.height &&
-        playerBox.y + playerBox.height > enemyBox.y
-      ) {
-        if (this.player!.shield) {
-          // Player has shield, destroy enemy
-          enemy.active = false;
-          this.createExplosion(enemy.x + enemy.width / 2, enemy.y + enemy.height / 2);
-        } else {
-          // Player takes damage
-          this.player!.lives--;
-          this.onLivesChange(this.player!.lives);
-          enemy.active = false;
-          this.createExplosion(enemy.x + enemy.width / 2, enemy.y + enemy.height / 2);
-          
-          // Call collision callback for sound effect
-          if (this.onCollision) {
-            this.onCollision();
-          }
-          
-          // Check game over
-          if (this.player!.lives <= 0) {
-            this.gameOver();
-          }
-        }
+  // Start the simulation on a fresh run with the given settings
+  private loadRunSetup(setup: ReplaySetup): void {
+    this.simulation.resize(setup.dimensions);
+    this.simulation.setEnemyVariants(setup.enemyVariants);
+    this.simulation.setLaneCount(setup.laneCount);
+    this.simulation.setDifficulty(setup.difficulty);
+    this.simulation.setStage(setup.stage ?? null);
+    this.simulation.setRules(getRuleSet(setup.rules));
+    this.simulation.setWeatherEnabled(setup.weather);
+    this.simulation.reset(setup.seed);
+    this.accumulatedTime = 0;
+  }
+
+  private startGhost(replay: Replay): void {
+    this.ghostSimulation = new GameSimulation(
+      replay.dimensions,
+      { onScoreChange: (score) => this.onGhostScoreChange?.(score) },
+      {
+        enemyVariants: replay.enemyVariants,
+        seed: replay.seed,
+        laneCount: replay.laneCount,
+        difficulty: replay.difficulty,
+        stage: replay.stage,
+        rules: getRuleSet(replay.rules),
+        weather: replay.weather
       }
-    });
-    
-    // Check seed collisions
-    this.seeds.forEach(seed => {
-      if (this.isColliding(this.player!, seed)) {
-        seed.active = false;
-        this.score += 10;
-        this.onScoreChange(this.score);
-        
-        // Play seed collection sound if callback exists
-        if (this.onSeedCollect) {
-          this.onSeedCollect();
-        }
-      }
-    });
-    
-    // Check power-up collisions
-    this.powerUps.forEach(powerUp => {
-      if (this.isColliding(this.player!, powerUp) && powerUp.powerUpType !== undefined) {
-        powerUp.active = false;
-        
-        switch (powerUp.powerUpType) {
-          case PowerUpType.SLOW_SPEED:
-            this.activateSlowMode();
-            break;
-          case PowerUpType.SHIELD:
-            this.activateShield();
-            break;
-          case PowerUpType.EXTRA_LIFE:
-            this.addExtraLife();
-            break;
-        }
-      }
-    });
-  }
-
-  private isColliding(obj1: GameObject, obj2: GameObject): boolean {
-    return (
-      obj1.x < obj2.x + obj2.width &&
-      obj1.x + obj1.width > obj2.x &&
-      obj1.y < obj2.y + obj2.height &&
-      obj1.y + obj1.height > obj2.y
     );
+    this.ghostCursor = new ReplayInputCursor(replay.inputs);
+    this.ghostSimulation.reset();
   }
 
-  private createExplosion(x: number, y: number): void {
-    const particleCount = 20;
-    const colors = ['#ff6600', '#ffcc00', '#ff3300', '#ff9900'];
-    
-    for (let i = 0; i < particleCount; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = 1 + Math.random() * 3;
-      const size = 2 + Math.random() * 6;
-      const lifetime = 500 + Math.random() * 1000;
-      const color = colors[Math.floor(Math.random() * colors.length)];
-      
-      this.explosions.push({
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        size,
-        color,
-        alpha: 1,
-        lifetime,
-        currentLife: lifetime
-      });
-    }
+  private stopGhost(): void {
+    this.ghostSimulation = null;
+    this.ghostCursor = null;
+    this.onGhostScoreChange?.(null);
   }
 
-  private updateSpawns(deltaTime: number): void {
-    // Spawn enemies
-    this.enemySpawnTimer += deltaTime;
-    if (this.enemySpawnTimer >= this.enemySpawnInterval) {
-      this.spawnEnemy();
-      this.enemySpawnTimer = 0;
-    }
+  // Play back a recorded run instead of taking player input
+  public startReplay(replay: Replay): void {
+    this.replay = replay;
+    this.replayCursor = new ReplayInputCursor(replay.inputs);
+    this.recorder = null;
+    this.stopGhost();
+    this.replayPaused = false;
+    this.playbackRate = 1;
     
-    // Spawn seeds
-    this.seedSpawnTimer += deltaTime;
-    if (this.seedSpawnTimer >= this.seedSpawnInterval) {
-      this.spawnSeed();
-      this.seedSpawnTimer = 0;
-    }
-    
-    // Spawn power-ups
-    this.powerUpSpawnTimer += deltaTime;
-    if (this.powerUpSpawnTimer >= this.powerUpSpawnInterval) {
-      this.spawnPowerUp();
-      this.powerUpSpawnTimer = 0;
-    }
+    this.restartReplay();
     
-    // Spawn road markings
-    this.roadMarkingTimer += deltaTime;
-    if (this.roadMarkingTimer >= this.roadMarkingInterval) {
-      this.createRoadMarking(-80); // Start above the canvas
-      this.roadMarkingTimer = 0;
-    }
+    this.gameState = GameState.GAMEPLAY;
+    this.onGameStateChange(GameState.GAMEPLAY);
     
-    // Spawn decorations (trees and bushes)
-    this.decorationSpawnTimer += deltaTime;
-    if (this.decorationSpawnTimer >= this.decorationSpawnInterval) {
-      this.spawnDecoration();
-      this.decorationSpawnTimer = 0;
+    if (this.animationFrameId === null) {
+      this.lastFrameTime = performance.now();
+      this.gameLoop();
     }
   }
 
-  private spawnEnemy(): void {
-    const lane = Math.floor(Math.random() * 3);
-    this.enemies.push(this.createEnemy(lane));
-  }
-
-  private spawnSeed(): void {
-    // Create a seed at a random lane
-    const lane = Math.floor(Math.random() * 3);
-    
-    // Seed size is DOUBLED from the original size (2x bigger)
-    const width = this.laneWidth * 0.4; // 0.2 * 2 = 0.4
-    const height = width;
-    
-    const seed: GameObject = {
-      x: this.lanePositions[lane] - (width / 2),
-      y: -height,
-      width,
-      height,
-      lane,
-      active: true,
-      type: 'seed',
-      update: (delta: number) => {
-        const speed = 0.25 * this.gameSpeed * (this.slowModeActive ? 0.5 : 1);
-        seed.y += speed * delta;
-        
-        // Check if out of bounds
-        if (seed.y > this.canvas.height) {
-          seed.active = false;
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        ctx.save();
-        
-        // Try to use the seed image if available
-        if (this.seedImage) {
-          try {
-            ctx.drawImage(
-              this.seedImage,
-              seed.x,
-              seed.y,
-              seed.width,
-              seed.height
-            );
-            
-            // Add a subtle glow effect behind the image
-            ctx.shadowColor = '#ffdb4d';
-            ctx.shadowBlur = 10;
-            ctx.drawImage(
-              this.seedImage,
-              seed.x,
-              seed.y,
-              seed.width,
-              seed.height
-            );
-            ctx.shadowBlur = 0;
-          } catch (e) {
-            // Fall back to drawing a circle if the image fails
-            this.drawSeedFallback(ctx, seed);
-          }
-        } else {
-          // No image available, use fallback
-          this.drawSeedFallback(ctx, seed);
-        }
-        
-        ctx.restore();
-      }
-    };
-    
-    this.seeds.push(seed);
+  public setReplayPaused(paused: boolean): void {
+    this.replayPaused = paused;
+    this.lastFrameTime = performance.now();
   }
 
-  private drawSeedFallback(ctx: CanvasRenderingContext2D, seed: GameObject): void {
-    // Draw seed (a small circle)
-    ctx.fillStyle = '#ffdb4d';
-    ctx.beginPath();
-    ctx.arc(
-      seed.x + seed.width / 2,
-      seed.y + seed.height / 2,
-      seed.width / 2,
-      0,
-      Math.PI * 2
-    );
-    ctx.fill();
-    
-    // Add a small glow effect
-    ctx.shadowColor = '#ffdb4d';
-    ctx.shadowBlur = 10;
-    ctx.beginPath();
-    ctx.arc(
-      seed.x + seed.width / 2,
-      seed.y + seed.height / 2,
-      seed.width / 3,
-      0,
-      Math.PI * 2
-    );
-    ctx.fill();
+  public setPlaybackRate(rate: number): void {
+    this.playbackRate = Math.min(Math.max(rate, 0.5), 4);
   }
 
-  private spawnPowerUp(): void {
-    // Create a power-up at a random lane
-    const lane = Math.floor(Math.random() * 3);
-    
-    // Randomly choose power-up type
-    const powerUpType = Math.floor(Math.random() * 3);
+  // Jump to a tick by re-simulating the replay from the start
+  public seekReplay(tick: number): void {
+    if (!this.replay) return;
     
-    // Power-up size is medium (between seed and car)
-    const width = this.laneWidth * 0.3;
-    const height = width;
+    const target = Math.min(Math.max(Math.floor(tick), 0), this.replay.ticks);
+    this.restartReplay();
     
-    const powerUp: GameObject = {
-      x: this.lanePositions[lane] - (width / 2),
-      y: -height,
-      width,
-      height,
-      lane,
-      active: true,
-      type: 'powerUp',
-      powerUpType: powerUpType as PowerUpType,
-      update: (delta: number) => {
-        const speed = 0.25 * this.gameSpeed * (this.slowModeActive ? 0.5 : 1);
-        powerUp.y += speed * delta;
-        
-        // Check if out of bounds
-        if (powerUp.y > this.canvas.height) {
-          powerUp.active = false;
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        ctx.save();
-        
-        let color = '#ffffff';
-        
-        // Set color based on power-up type
-        switch (powerUp.powerUpType) {
-          case PowerUpType.SLOW_SPEED:
-            color = '#9b87f5'; // Purple
-            break;
-          case PowerUpType.SHIELD:
-            color = '#4cc9f0'; // Cyan
-            break;
-          case PowerUpType.EXTRA_LIFE:
-            color = '#ff5e5e'; // Red
-            break;
-        }
-        
-        // Draw power-up shape (circled hexagon)
-        ctx.fillStyle = color;
-        
-        // Draw circle
-        ctx.beginPath();
-        ctx.arc(
-          powerUp.x + powerUp.width / 2,
-          powerUp.y + powerUp.height / 2,
-          powerUp.width / 2,
-          0,
-          Math.PI * 2
-        );
-        ctx.fill();
-        
-        // Draw icon based on power-up type
-        ctx.fillStyle = '#ffffff';
-        ctx.strokeStyle = '#ffffff';
-        ctx.lineWidth = 2;
-        
-        const centerX = powerUp.x + powerUp.width / 2;
-        const centerY = powerUp.y + powerUp.height / 2;
-        const iconSize = powerUp.width * 0.35;
-        
-        switch (powerUp.powerUpType) {
-          case PowerUpType.SLOW_SPEED:
-            // Draw clock icon
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, iconSize, 0, Math.PI * 2);
-            ctx.stroke();
-            
-            // Draw clock hands
-            ctx.beginPath();
-            ctx.moveTo(centerX, centerY);
-            ctx.lineTo(centerX, centerY - iconSize * 0.7);
-            ctx.stroke();
-            
-            ctx.beginPath();
-            ctx.moveTo(centerX, centerY);
-            ctx.lineTo(centerX + iconSize * 0.5, centerY + iconSize * 0.3);
-            ctx.stroke();
-            break;
-            
-          case PowerUpType.SHIELD:
-            // Draw shield icon
-            ctx.beginPath();
-            ctx.moveTo(centerX, centerY - iconSize);
-            ctx.quadraticCurveTo(
-              centerX + iconSize * 1.2, centerY - iconSize * 0.6,
-              centerX, centerY + iconSize
-            );
-            ctx.quadraticCurveTo(
-              centerX - iconSize * 1.2, centerY - iconSize * 0.6,
-              centerX, centerY - iconSize
-            );
-            ctx.stroke();
-            break;
-            
-          case PowerUpType.EXTRA_LIFE:
-            // Draw heart icon
-            const heartSize = iconSize * 0.8;
-            ctx.beginPath();
-            ctx.moveTo(centerX, centerY + heartSize * 0.3);
-            ctx.bezierCurveTo(
-              centerX, centerY, 
-              centerX - heartSize, centerY, 
-              centerX - heartSize, centerY - heartSize * 0.5
-            );
-            ctx.bezierCurveTo(
-              centerX - heartSize, centerY - heartSize * 1.1,
-              centerX, centerY - heartSize * 1.1,
-              centerX, centerY - heartSize * 0.6
-            );
-            ctx.bezierCurveTo(
-              centerX, centerY - heartSize * 1.1,
-              centerX + heartSize, centerY - heartSize * 1.1,
-              centerX + heartSize, centerY - heartSize * 0.5
-            );
-            ctx.bezierCurveTo(
-              centerX + heartSize, centerY, 
-              centerX, centerY, 
-              centerX, centerY + heartSize * 0.3
-            );
-            ctx.fill();
-            break;
-        }
-        
-        // Add a glow effect
-        ctx.shadowColor = color;
-        ctx.shadowBlur = 10;
-        ctx.beginPath();
-        ctx.arc(
-          powerUp.x + powerUp.width / 2,
-          powerUp.y + powerUp.height / 2,
-          powerUp.width / 3,
-          0,
-          Math.PI * 2
-        );
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
-        ctx.fill();
-        
-        ctx.restore();
-      }
-    };
+    if (this.gameState !== GameState.GAMEPLAY) {
+      this.gameState = GameState.GAMEPLAY;
+      this.onGameStateChange(GameState.GAMEPLAY);
+    }
     
-    this.powerUps.push(powerUp);
+    const world = this.simulation.getWorld();
+    while (world.tick < target && !world.over) {
+      this.stepSimulation();
+    }
   }
 
-  private createRoadMarking(y: number): void {
-    // Create a road marking at the specified y position
-    const marking: RoadMarking = {
-      y,
-      active: true,
-      update: (delta: number) => {
-        const speed = 0.3 * this.gameSpeed * (this.slowModeActive ? 0.5 : 1);
-        marking.y += speed * delta;
-        
-        // Check if out of bounds
-        if (marking.y > this.canvas.height) {
-          marking.active = false;
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        ctx.save();
-        
-        // Draw lane markings
-        ctx.strokeStyle = '#fff';
-        ctx.lineWidth = 5;
-        
-        // Left lane divider
-        const leftX = this.lanePositions[0] + this.laneWidth / 2;
-        ctx.beginPath();
-        ctx.moveTo(leftX, marking.y);
-        ctx.lineTo(leftX, marking.y + 40);
-        ctx.stroke();
-        
-        // Right lane divider
-        const rightX = this.lanePositions[1] + this.laneWidth / 2;
-        ctx.beginPath();
-        ctx.moveTo(rightX, marking.y);
-        ctx.lineTo(rightX, marking.y + 40);
-        ctx.stroke();
-        
-        ctx.restore();
-      }
+  public getReplayProgress(): { tick: number; totalTicks: number } {
+    return {
+      tick: this.simulation.getWorld().tick,
+      totalTicks: this.replay ? this.replay.ticks : 0
     };
-    
-    this.roadMarkings.push(marking);
   }
 
-  private spawnDecoration(): void {
-    // 50% chance to spawn on left or right side
-    const isLeftSide = Math.random() > 0.5;
-    
-    // Randomize decoration type (70% trees, 30% bushes)
-    const type = Math.random() > 0.3 ? 'tree' : 'bush';
-    
-    // Calculate x position (distance from road edge)
-    const roadEdge = isLeftSide ? 
-      this.roadCenterX - this.roadWidth / 2 : 
-      this.roadCenterX + this.roadWidth / 2;
-    
-    // Randomize distance from road (10-80px)
-    const distanceFromRoad = 10 + Math.random() * 70;
-    
-    // Calculate final x position
-    const x = isLeftSide ? 
-      roadEdge - distanceFromRoad : 
-      roadEdge + distanceFromRoad;
-    
-    // Randomize size based on type
-    const baseSize = type === 'tree' ? 60 : 30;
-    const sizeVariation = type === 'tree' ? 30 : 15;
-    const size = baseSize + Math.random() * sizeVariation;
+  private restartReplay(): void {
+    if (!this.replay) return;
     
-    // Always set tree type to oak (removed pine trees)
-    const treeType = type === 'tree' ? 'oak' : null;
-    
-    const decoration: Decoration = {
-      x: isLeftSide ? x - size : x,
-      y: -size,
-      type,
-      size,
-      active: true,
-      update: (delta: number) => {
-        const speed = 0.3 * this.gameSpeed * (this.slowModeActive ? 0.5 : 1);
-        decoration.y += speed * delta;
-        
-        // Check if out of bounds
-        if (decoration.y > this.canvas.height) {
-          decoration.active = false;
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        ctx.save();
-        
-        if (type === 'tree') {
-          // Create slight shadow beneath the tree
-          ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
-          ctx.beginPath();
-          ctx.ellipse(
-            decoration.x + decoration.size / 2,
-            decoration.y + decoration.size * 0.95,
-            decoration.size * 0.4,
-            decoration.size * 0.1,
-            0, 0, Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Draw tree trunk with texture
-          ctx.fillStyle = '#6B4226';
-          const trunkWidth = decoration.size * 0.2;
-          const trunkHeight = decoration.size * 0.5;
-          
-          // Trunk base color
-          ctx.fillRect(
-            decoration.x + (decoration.size - trunkWidth) / 2,
-            decoration.y + decoration.size - trunkHeight,
-            trunkWidth,
-            trunkHeight
-          );
-          
-          // Trunk texture/details
-          ctx.fillStyle = '#5e3b14';
-          ctx.fillRect(
-            decoration.x + (decoration.size - trunkWidth) / 2 + trunkWidth * 0.2,
-            decoration.y + decoration.size - trunkHeight,
-            trunkWidth * 0.2,
-            trunkHeight
-          );
-          
-          ctx.fillStyle = '#8b5a2b';
-          ctx.fillRect(
-            decoration.x + (decoration.size - trunkWidth) / 2 + trunkWidth * 0.6,
-            decoration.y + decoration.size - trunkHeight,
-            trunkWidth * 0.3,
-            trunkHeight
-          );
-          
-          // Oak tree (round shape)
-          
-          // Draw tree crown (circular shape with variations)
-          const centerX = decoration.x + decoration.size / 2;
-          const centerY = decoration.y + decoration.size * 0.4;
-          const radius = decoration.size * 0.4;
-          
-          // Draw shadow
-          ctx.fillStyle = '#1C3F1C';
-          ctx.beginPath();
-          ctx.arc(
-            centerX + radius * 0.1,
-            centerY + radius * 0.1,
-            radius * 1.05,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Main foliage gradient
-          const gradient = ctx.createRadialGradient(
-            centerX - radius * 0.2, centerY - radius * 0.2, radius * 0.1,
-            centerX, centerY, radius
-          );
-          gradient.addColorStop(0, '#3A7D44');
-          gradient.addColorStop(0.7, '#2A5A30');
-          gradient.addColorStop(1, '#1C3F1C');
-          
-          // Draw main crown
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-          ctx.fill();
-          
-          // Add smaller circles for texture/foliage detail
-          ctx.fillStyle = '#3A7D44';
-          
-          // Create variations in the foliage
-          for (let i = 0; i < 6; i++) {
-            const angle = Math.random() * Math.PI * 2;
-            const distance = radius * 0.5 * Math.random();
-            const blobRadius = radius * (0.4 + Math.random() * 0.3);
-            
-            ctx.beginPath();
-            ctx.arc(
-              centerX + Math.cos(angle) * distance,
-              centerY + Math.sin(angle) * distance,
-              blobRadius,
-              0,
-              Math.PI * 2
-            );
-            ctx.fill();
-          }
-          
-          // Add highlights
-          ctx.fillStyle = '#4A8D54';
-          ctx.globalAlpha = 0.3;
-          
-          ctx.beginPath();
-          ctx.arc(
-            centerX - radius * 0.3,
-            centerY - radius * 0.3,
-            radius * 0.5,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          ctx.globalAlpha = 1;
-        } else {
-          // Draw bush (circular shape with improved texture)
-          
-          // Draw shadow beneath bush
-          ctx.fillStyle = 'rgba(0, 0, 0, 0.15)';
-          ctx.beginPath();
-          ctx.ellipse(
-            decoration.x + decoration.size / 2,
-            decoration.y + decoration.size * 0.95,
-            decoration.size * 0.4,
-            decoration.size * 0.1,
-            0, 0, Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Create gradient for more realistic bush
-          const gradient = ctx.createRadialGradient(
-            decoration.x + decoration.size * 0.3,
-            decoration.y + decoration.size * 0.3,
-            decoration.size * 0.1,
-            decoration.x + decoration.size / 2,
-            decoration.y + decoration.size / 2,
-            decoration.size / 2
-          );
-          gradient.addColorStop(0, '#4A8D54');
-          gradient.addColorStop(0.6, '#3A7D44');
-          gradient.addColorStop(1, '#2D6A3A');
-          
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.arc(
-            decoration.x + decoration.size / 2,
-            decoration.y + decoration.size / 2,
-            decoration.size / 2,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Add some detail to the bush
-          ctx.fillStyle = '#2D6A3A';
-          ctx.globalAlpha = 0.5;
-          
-          // First blob
-          ctx.beginPath();
-          ctx.arc(
-            decoration.x + decoration.size * 0.3,
-            decoration.y + decoration.size * 0.4,
-            decoration.size * 0.25,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Second blob
-          ctx.beginPath();
-          ctx.arc(
-            decoration.x + decoration.size * 0.7,
-            decoration.y + decoration.size * 0.5,
-            decoration.size * 0.2,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Add highlights
-          ctx.fillStyle = '#5A9D64';
-          ctx.globalAlpha = 0.3;
-          
-          ctx.beginPath();
-          ctx.arc(
-            decoration.x + decoration.size * 0.4,
-            decoration.y + decoration.size * 0.3,
-            decoration.size * 0.15,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-          
-          ctx.globalAlpha = 1;
-        }
-        
-        ctx.restore();
-      }
-    };
-    
-    this.decorations.push(decoration);
+    this.loadRunSetup(this.replay);
+    this.replayCursor?.reset();
   }
 
-  private updateDifficulty(deltaTime: number): void {
-    this.difficultyTimer += deltaTime;
-    if (this.difficultyTimer >= this.difficultyInterval) {
-      this.gameSpeed = Math.min(this.gameSpeed + 0.2, 2.5);
-      this.enemySpawnInterval = Math.max(this.enemySpawnInterval - 100, 1000);
-      this.difficultyTimer = 0;
+  // Feed recorded inputs for the coming tick, then advance one fixed step
+  private stepSimulation(): void {
+    if (this.replayCursor) {
+      this.replayCursor
+        .take(this.simulation.getWorld().tick)
+        .forEach(action => this.simulation.queueInput(action));
     }
-  }
-
-  private updatePowerUps(deltaTime: number): void {
-    // Update slow mode
-    if (this.slowModeActive) {
-      this.slowModeTimer -= deltaTime;
-      if (this.slowModeTimer <= 0) {
-        this.slowModeActive = false;
-        this.onPowerUpEnd(PowerUpType.SLOW_SPEED);
-      }
+    
+    if (this.ghostSimulation && this.ghostCursor) {
+      const ghost = this.ghostSimulation;
+      this.ghostCursor
+        .take(ghost.getWorld().tick)
+        .forEach(action => ghost.queueInput(action));
+      ghost.step(TIME_STEP);
     }
+    
+    this.simulation.step(TIME_STEP);
   }
 
-  private activateSlowMode(): void {
-    this.slowModeActive = true;
-    this.slowModeTimer = this.slowModeDuration;
-    this.onPowerUpStart(PowerUpType.SLOW_SPEED, this.slowModeDuration);
+  // Each rule set keeps a high score per difficulty; Normal stays under the rule set's own key
+  private getHighScoreKey(): string | null {
+    const key = this.rules.highScoreKey;
+    if (!key || this.difficulty.id === DEFAULT_DIFFICULTY) return key;
+    return `${key}:${this.difficulty.id}`;
   }
 
-  private activateShield(): void {
-    if (this.player) {
-      this.player.shield = true;
-      this.player.shieldTimer = 3000; // 3 seconds
-      this.onPowerUpStart(PowerUpType.SHIELD, 3000);
-    }
+  private loadHighScore(): void {
+    const key = this.getHighScoreKey();
+    const savedHighScore = key ? localStorage.getItem(key) : null;
+    this.highScore = savedHighScore ? parseInt(savedHighScore, 10) : 0;
   }
 
-  private addExtraLife(): void {
-    if (this.player) {
-      this.player.lives = Math.min(this.player.lives + 1, 5); // Max 5 lives
-      this.onLivesChange(this.player.lives);
-      this.onPowerUpStart(PowerUpType.EXTRA_LIFE, 0);
+  // Rule sets without a high score key, like practice, never keep scores
+  private saveHighScore(): void {
+    const key = this.getHighScoreKey();
+    if (!key) return;
+    
+    const score = this.simulation.getWorld().score;
+    if (score > this.highScore) {
+      this.highScore = score;
+      localStorage.setItem(key, this.highScore.toString());
     }
   }
 
-  private gameOver(): void {
-    this.gameState = GameState.GAME_OVER;
-    this.onGameStateChange(GameState.GAME_OVER);
-    this.saveHighScore();
-  }
-
-  private render(): void {
-    // Clear canvas
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Draw background
-    this.drawBackground();
-    
-    // Draw grass
-    this.drawGrass();
-    
-    // Draw road
-    this.drawRoad();
+  private gameLoop(): void {
+    const currentTime = performance.now();
+    const deltaTime = currentTime - this.lastFrameTime;
+    this.lastFrameTime = currentTime;
     
-    // Draw decorations (behind the cars)
-    this.decorations.forEach(decoration => decoration.render(this.ctx));
+    // Don't update if game or replay playback is paused
+    if (this.gameState === GameState.GAMEPLAY && !this.replayPaused) {
+      this.update(deltaTime * this.playbackRate);
+    }
     
-    // Draw game objects
-    this.drawGameObjects();
+    this.render();
     
-    // Draw UI
-    this.drawUI();
+    // Continue game loop
+    this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this));
   }
 
-  private drawBackground(): void {
-    // Draw sky gradient
-    const gradient = this.ctx.createLinearGradient(0, 0, 0, this.canvas.height);
-    gradient.addColorStop(0, '#1a2b45');
-    gradient.addColorStop(1, '#2d4b6e');
-    this.ctx.fillStyle = gradient;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+  private update(deltaTime: number): void {
+    // Accumulate time for fixed time step updates
+    this.accumulatedTime += deltaTime;
     
-    // Draw some stars in the background
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-    for (let i = 0; i < 50; i++) {
-      const x = Math.random() * this.canvas.width;
-      const y = Math.random() * this.canvas.height * 0.7;
-      const size = Math.random() * 2 + 1;
-      this.ctx.beginPath();
-      this.ctx.arc(x, y, size, 0, Math.PI * 2);
-      this.ctx.fill();
+    // Update at fixed time steps
+    while (this.accumulatedTime >= TIME_STEP && this.gameState === GameState.GAMEPLAY) {
+      this.stepSimulation();
+      this.accumulatedTime -= TIME_STEP;
     }
   }
 
-  private drawGrass(): void {
-    // Draw grass on both sides of the road
-    const roadLeft = this.roadCenterX - this.roadWidth / 2;
-    const roadRight = this.roadCenterX + this.roadWidth / 2;
-    
-    // Left side grass
-    const grassGradient = this.ctx.createLinearGradient(0, 0, roadLeft, 0);
-    grassGradient.addColorStop(0, '#1C3F1C');  // Darker at the edge
-    grassGradient.addColorStop(1, '#2A5A30');  // Lighter near the road
-    
-    this.ctx.fillStyle = grassGradient;
-    this.ctx.fillRect(0, 0, roadLeft, this.canvas.height);
-    
-    // Right side grass
-    const grassGradient2 = this.ctx.createLinearGradient(roadRight, 0, this.canvas.width, 0);
-    grassGradient2.addColorStop(0, '#2A5A30');  // Lighter near the road
-    grassGradient2.addColorStop(1, '#1C3F1C');  // Darker at the edge
-    
-    this.ctx.fillStyle = grassGradient2;
-    this.ctx.fillRect(roadRight, 0, this.canvas.width - roadRight, this.canvas.height);
-    
-    // Add grass texture
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.1)';
+  private gameOver(result: RunResult): void {
+    this.gameState = GameState.GAME_OVER;
+    this.onGameStateChange(GameState.GAME_OVER);
     
-    // Left side texture
-    for (let i = 0; i < roadLeft; i += 20) {
-      for (let j = 0; j < this.canvas.height; j += 20) {
-        if (Math.random() > 0.8) {
-          this.ctx.fillRect(i, j, 5, 5);
-        }
+    // Replays never count towards the high score, and stage scores are kept per stage
+    if (!this.replay) {
+      if (!result.stage) {
+        this.saveHighScore();
       }
-    }
-    
-    // Right side texture
-    for (let i = roadRight; i < this.canvas.width; i += 20) {
-      for (let j = 0; j < this.canvas.height; j += 20) {
-        if (Math.random() > 0.8) {
-          this.ctx.fillRect(i, j, 5, 5);
-        }
+      
+      if (this.recorder) {
+        this.lastReplay = this.recorder.finish(this.simulation.getWorld().tick, result.score);
+        this.recorder = null;
       }
     }
-  }
-
-  private drawRoad(): void {
-    // Calculate road dimensions
-    const roadLeft = this.roadCenterX - this.roadWidth / 2;
-    const roadRight = this.roadCenterX + this.roadWidth / 2;
     
-    // Draw road background with asphalt texture
-    const roadGradient = this.ctx.createLinearGradient(roadLeft, 0, roadRight, 0);
-    roadGradient.addColorStop(0, '#333333');
-    roadGradient.addColorStop(0.5, '#444444');
-    roadGradient.addColorStop(1, '#333333');
-    
-    this.ctx.fillStyle = roadGradient;
-    this.ctx.fillRect(roadLeft, 0, this.roadWidth, this.canvas.height);
-    
-    // Add asphalt texture
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
-    for (let i = roadLeft; i < roadRight; i += 10) {
-      for (let j = 0; j < this.canvas.height; j += 10) {
-        if (Math.random() > 0.9) {
-          this.ctx.fillRect(i, j, 2, 2);
-        }
-      }
+    if (this.onGameOver) {
+      this.onGameOver(result);
     }
-    
-    // Draw road edges
-    this.ctx.strokeStyle = '#f6f6a3'; // Yellow road edge
-    this.ctx.lineWidth = 3;
-    
-    // Left edge
-    this.ctx.beginPath();
-    this.ctx.moveTo(roadLeft, 0);
-    this.ctx.lineTo(roadLeft, this.canvas.height);
-    this.ctx.stroke();
-    
-    // Right edge
-    this.ctx.beginPath();
-    this.ctx.moveTo(roadRight, 0);
-    this.ctx.lineTo(roadRight, this.canvas.height);
-    this.ctx.stroke();
-    
-    // Draw lane markings from the road marking objects
-    this.roadMarkings.forEach(marking => marking.render(this.ctx));
   }
 
-  private drawGameObjects(): void {
-    // Draw player
-    if (this.player) {
-      this.player.render(this.ctx);
-    }
-    
-    // Draw enemies
-    this.enemies.forEach(enemy => enemy.render(this.ctx));
-    
-    // Draw seeds
-    this.seeds.forEach(seed => seed.render(this.ctx));
+  private render(): void {
+    const start = performance.now();
+    
+    // Fit the simulation's play field into the canvas, letterboxed if the sizes differ,
+    // and up to device pixels
+    const dimensions = this.simulation.getDimensions();
+    const scale = this.pixelRatio * Math.min(
+      this.viewport.width / dimensions.width,
+      this.viewport.height / dimensions.height
+    );
+    const offsetX = (this.canvas.width - dimensions.width * scale) / 2;
+    const offsetY = (this.canvas.height - dimensions.height * scale) / 2;
     
-    // Draw power-ups
-    this.powerUps.forEach(powerUp => powerUp.render(this.ctx));
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY);
+    
+    // The ghost disappears once its run has ended
+    const ghostWorld = this.ghostSimulation?.getWorld();
+    const ghostPlayer = ghostWorld && !ghostWorld.over ? ghostWorld.player : null;
+    
+    // Campaign stages are drawn in the theme for their time of day
+    const world = this.simulation.getWorld();
+    const theme = world.stage
+      ? getTheme(STAGE_THEME_IDS[world.stage.theme])
+      : getThemeAt(this.theme, this.themeCycle, world.distance);
+    
+    // Announce a milestone change, but not the theme a run starts on
+    if (theme.id !== this.shownTheme && this.isRunInProgress() && world.distance > 0) {
+      this.onThemeChange?.(theme.id);
+    }
+    this.shownTheme = theme.id;
+    
+    this.renderer.render(
+      world,
+      this.simulation.getLayout(),
+      dimensions,
+      this.gameState,
+      theme,
+      ghostPlayer
+    );
     
-    // Draw explosions
-    this.drawExplosions();
-  }
-
-  private drawExplosions(): void {
-    this.explosions.forEach(particle => {
-      this.ctx.save();
-      this.ctx.globalAlpha = particle.alpha;
-      this.ctx.fillStyle = particle.color;
-      this.ctx.beginPath();
-      this.ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-      this.ctx.fill();
-      this.ctx.restore();
-    });
-  }
-
-  private drawUI(): void {
-    // Draw game state UI
-    if (this.gameState === GameState.START_SCREEN) {
-      // Start screen UI is handled in the React component
-    } else if (this.gameState === GameState.PAUSED) {
-      // Draw pause screen
-      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-      
-      this.ctx.fillStyle = '#fff';
-      this.ctx.font = '30px Arial';
-      this.ctx.textAlign = 'center';
-      this.ctx.fillText('PAUSED', this.canvas.width / 2, this.canvas.height / 2);
-      this.ctx.font = '18px Arial';
-      this.ctx.fillText('Press P to resume', this.canvas.width / 2, this.canvas.height / 2 + 40);
-    } else if (this.gameState === GameState.GAME_OVER) {
-      // Game over UI is handled in the React component
-    }
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.frameTimer.record(performance.now() - start);
   }
   
   private checkAllImagesLoaded(): void {
     if (this.playerCarLoaded && this.enemyCarLoaded && this.seedImageLoaded) {
       console.log("All game images processed, can continue with game initialization");
       this.imagesLoaded = true;
-      // Initialize player after images are loaded or failed
-      this.player = this.createPlayer();
     }
   }
-  
-  private calculateDimensions(): void {
-    // Calculate lane and road dimensions based on canvas size
-    this.roadWidth = this.canvas.width * 0.6;
-    this.roadCenterX = this.canvas.width / 2;
-    this.laneWidth = this.roadWidth / 3;
-    
-    // Calculate lane positions (center x of each lane)
-    this.lanePositions = [
-      this.roadCenterX - this.laneWidth,
-      this.roadCenterX,
-      this.roadCenterX + this.laneWidth
-    ];
-  }
-  
-  private createPlayer(): PlayerCar {
-    // Use the same aspect ratio for all cars (0.7 is a balanced ratio)
-    const aspectRatio = 0.7; 
-    const width = this.laneWidth * 0.9; // 90% of lane width
-    const height = width / aspectRatio;
-    const lane = 1; // Start in middle lane
-    
-    return {
-      x: this.lanePositions[lane] - (width / 2),
-      y: this.canvas.height - height - 20,
-      width,
-      height,
-      lane,
-      lanePosition: this.lanePositions[lane],
-      targetLane: lane,
-      transitioning: false,
-      lives: 3,
-      shield: false,
-      shieldTimer: 0,
-      active: true,
-      update: (delta: number) => {
-        if (!this.player) return;
-        
-        // Handle lane transitions
-        if (this.player.transitioning) {
-          const transitionSpeed = 0.01 * delta;
-          const target = this.lanePositions[this.player.targetLane];
-          const diff = target - this.player.lanePosition;
-          
-          if (Math.abs(diff) < 2) {
-            this.player.lanePosition = target;
-            this.player.transitioning = false;
-            this.player.lane = this.player.targetLane;
-          } else {
-            this.player.lanePosition += diff * transitionSpeed;
-          }
-        }
-        
-        this.player.x = this.player.lanePosition - (this.player.width / 2);
-        
-        // Update shield timer if active
-        if (this.player.shield) {
-          this.player.shieldTimer -= delta;
-          if (this.player.shieldTimer <= 0) {
-            this.player.shield = false;
-            this.onPowerUpEnd(PowerUpType.SHIELD);
-          }
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        if (!this.player) return;
-        
-        ctx.save();
-        
-        // Draw shield effect if active
-        if (this.player.shield) {
-          ctx.beginPath();
-          ctx.fillStyle = 'rgba(100, 210, 255, 0.3)';
-          ctx.ellipse(
-            this.player.x + this.player.width / 2, 
-            this.player.y + this.player.height / 2,
-            this.player.width * 0.8, 
-            this.player.height * 0.8, 
-            0, 0, Math.PI * 2
-          );
-          ctx.fill();
-          
-          // Shield border
-          ctx.beginPath();
-          ctx.strokeStyle = 'rgba(100, 210, 255, 0.8)';
-          ctx.lineWidth = 2;
-          ctx.ellipse(
-            this.player.x + this.player.width / 2, 
-            this.player.y + this.player.height / 2,
-            this.player.width * 0.8, 
-            this.player.height * 0.8, 
-            0, 0, Math.PI * 2
-          );
-          ctx.stroke();
-        }
-        
-        try {
-          // Draw the player car image
-          ctx.drawImage(
-            this.playerCarImage, 
-            this.player.x, 
-            this.player.y, 
-            this.player.width, 
-            this.player.height
-          );
-        } catch (e) {
-          // Fallback to drawing a simple car if image fails
-          console.warn("Error drawing player car image, using fallback:", e);
-          this.drawCarFallback(
-            ctx, 
-            this.player.x, 
-            this.player.y, 
-            this.player.width, 
-            this.player.height, 
-            '#3cbbbb'
-          );
-        }
-        
-        ctx.restore();
-      }
-    };
-  }
-  
-  private drawCarFallback(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string): void {
-    // Draw car body
-    ctx.fillStyle = color;
-    ctx.fillRect(x, y, width, height);
-    
-    // Draw car details (windows, etc.)
-    ctx.fillStyle = '#222';
-    
-    // Draw windows (top part of car)
-    const windowHeight = height * 0.3;
-    const windowWidth = width * 0.7;
-    const windowX = x + (width - windowWidth) / 2;
-    const windowY = y + height * 0.15;
-    ctx.fillRect(windowX, windowY, windowWidth, windowHeight);
-    
-    // Draw headlights or taillights
-    ctx.fillStyle = '#ffdd00';
-    
-    // Front lights
-    const lightSize = width * 0.15;
-    ctx.fillRect(x + width * 0.1, y + height * 0.1, lightSize, lightSize);
-    ctx.fillRect(x + width - width * 0.1 - lightSize, y + height * 0.1, lightSize, lightSize);
-  }
-  
-  private createEnemy(lane: number): GameObject {
-    // Use the same aspect ratio as the player car
-    const aspectRatio = 0.7; 
-    const width = this.laneWidth * 0.9; // 90% of lane width
-    const height = width / aspectRatio;
-    
-    // Choose a random enemy car image if multiple are available
-    const enemyImageIndex = this.enemyCarImages.length > 0 
-      ? Math.floor(Math.random() * this.enemyCarImages.length) 
-      : 0;
-    
-    const enemy = {
-      x: this.lanePositions[lane] - (width / 2),
-      y: -height,
-      width,
-      height,
-      lane,
-      active: true,
-      type: 'enemy',
-      imageIndex: enemyImageIndex,
-      update: (delta: number) => {
-        // Move downward
-        const speed = 0.3 * this.gameSpeed * (this.slowModeActive ? 0.5 : 1);
-        // Use a direct reference to the enemy object instead of this
-        enemy.y += speed * delta;
-        
-        // Check if out of bounds
-        if (enemy.y > this.canvas.height) {
-          enemy.active = false;
-        }
-      },
-      render: (ctx: CanvasRenderingContext2D) => {
-        ctx.save();
-        
-        try {
-          // Get the specific enemy car image to use
-          const enemyImage = this.enemyCarImages[enemy.imageIndex];
-          if (enemyImage) {
-            // Draw the enemy car image
-            ctx.drawImage(
-              enemyImage, 
-              enemy.x, 
-              enemy.y, 
-              enemy.width, 
-              enemy.height
-            );
-          } else {
-            throw new Error("Enemy car image not available");
-          }
-        } catch (e) {
-          // Fallback to drawing a simple car if image fails
-          console.warn("Error drawing enemy car image, using fallback");
-          this.drawCarFallback(
-            ctx, 
-            enemy.x, 
-            enemy.y, 
-            enemy.width, 
-            enemy.height, 
-            '#dd373c'
-          );
-        }
-        
-        ctx.restore();
-      }
-    };
-    
-    return enemy;
-  }
-}
\ No newline at end of file
+}
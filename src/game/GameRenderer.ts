@@ -0,0 +1,1214 @@
+// Canvas renderer for the simulation world state
+
+import {
+  ActivePowerUp,
+  Boss,
+  Decoration,
+  Dimensions,
+  EnemyCar,
+  GameObject,
+  GameState,
+  Hazard,
+  PlayerCar,
+  RoadLayout,
+  StageRun,
+  WeatherKind,
+  WorldState
+} from './GameTypes';
+import { getPowerUp } from './PowerUps';
+import { LANE_CHANGE_SIGNAL, getEnemyArchetype } from './EnemyArchetypes';
+import { CONSTRUCTION_WARNING_LENGTH } from './Hazards';
+import { getScriptedEvent } from './ScriptedEvents';
+import { PIXELS_PER_METRE } from './GameSimulation';
+import { BackgroundLayers } from './BackgroundLayers';
+import { AmbientParticles } from './AmbientParticles';
+import { SeededRandom } from './SeededRandom';
+import { DecorationKind, ThemeLighting, VisualTheme, getTheme } from './Themes';
+import { LightMap } from './LightMap';
+import { WEATHER_TYPES, blendWeather, getWeatherIntensity } from './Weather';
+
+// Headlight beams at night, as fractions of the play field height and lane widths across at the far end
+const PLAYER_HEADLIGHTS = { reach: 0.6, spread: 2.4 };
+const ENEMY_HEADLIGHTS = { reach: 0.3, spread: 1.6 };
+
+// Colours of the lights glowing on top of the dark, as 'r, g, b'
+const TAIL_LIGHT = '255, 40, 30';
+const HEADLIGHT_TINT = '255, 236, 190';
+
+// px over which fog thickens from clear road to full haze
+const FOG_FADE = 80;
+
+// Which of the theme's decorations stands in for a simulated tree or bush; picked from its size so it
+// stays the same as it scrolls past
+function getDecorationKind(decoration: Decoration, theme: VisualTheme): DecorationKind {
+  const kinds = decoration.type === 'tree' ? theme.decorations.large : theme.decorations.small;
+  return kinds[Math.floor(decoration.size * 10) % kinds.length];
+}
+
+// Images shared with the engine, which fills them in as they load
+export interface RendererAssets {
+  playerCarImage: HTMLImageElement;
+  enemyCarImages: HTMLImageElement[];
+  seedImage: HTMLImageElement | null;
+}
+
+export class GameRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private assets: RendererAssets;
+
+  // Frame being drawn
+  private layout: RoadLayout;
+  private dimensions: Dimensions;
+  private theme: VisualTheme = getTheme(null);
+
+  // Sky, grass and road surface, only redrawn when the play field or theme changes
+  private layers: BackgroundLayers = new BackgroundLayers();
+
+  // Rain, snow or dust of the current theme
+  private particles: AmbientParticles = new AmbientParticles();
+
+  // Rain or snow of the weather, kept while it shows
+  private weatherParticles: Partial<Record<WeatherKind, AmbientParticles>> = {};
+
+  // Darkness of headlight-lit themes, cut away wherever a light reaches
+  private lightMap: LightMap = new LightMap();
+
+  constructor(ctx: CanvasRenderingContext2D, assets: RendererAssets) {
+    this.ctx = ctx;
+    this.assets = assets;
+  }
+
+  public render(
+    world: WorldState,
+    layout: RoadLayout,
+    dimensions: Dimensions,
+    gameState: GameState,
+    theme: VisualTheme,
+    ghost: PlayerCar | null = null
+  ): void {
+    this.layout = layout;
+    this.dimensions = dimensions;
+    this.theme = theme;
+
+    // Bring the static layers up to date at the resolution the canvas is drawn at
+    this.layers.update(dimensions, layout, this.ctx.getTransform().a, theme);
+    this.particles.update(theme.particles, dimensions, world.gameTime);
+
+    // Clear canvas
+    this.ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+
+    // Draw background
+    this.layers.drawSky(this.ctx, dimensions);
+
+    // Draw grass and road
+    this.drawRoad(world);
+
+    // Draw decorations (behind the cars)
+    world.decorations.forEach(decoration => this.drawDecoration(decoration));
+
+    // Draw hazards on the road surface
+    world.hazards.forEach(hazard => this.drawHazard(hazard));
+
+    // Draw the finish line of a campaign stage once it's in view
+    if (world.stage) {
+      this.drawFinishLine(world.stage, world.distance, world.player);
+    }
+
+    // Draw the ghost car underneath the live objects
+    if (ghost) {
+      this.drawGhost(ghost);
+    }
+    
+    // Draw game objects
+    this.drawGameObjects(world);
+
+    // Weather over the road, then the theme's light
+    this.particles.draw(this.ctx, theme.particles);
+    this.drawWeather(world);
+    if (theme.lighting?.headlights) {
+      this.drawHeadlightLighting(world, theme.lighting);
+    } else if (theme.lighting) {
+      this.ctx.fillStyle = theme.lighting.ambient;
+      this.ctx.fillRect(0, 0, dimensions.width, dimensions.height);
+
+      if (theme.lighting.lampGlow) {
+        this.drawLampGlows(world.decorations, theme.lighting.lampGlow);
+      }
+    }
+
+    // Draw UI
+    this.drawUI(gameState);
+  }
+
+  // Dark everywhere but the headlight beams, tail lights, lamps and pickups, so traffic only shows
+  // once it is lit; the lights themselves then glow on top
+  private drawHeadlightLighting(world: WorldState, lighting: ThemeLighting): void {
+    const { player, enemies, boss } = world;
+    const { laneWidth } = this.layout;
+    const { height } = this.dimensions;
+    const lights = this.lightMap;
+
+    lights.begin(this.dimensions, lighting.ambient);
+
+    // The player's beam, and enough spill to see the car itself
+    const playerCenter = player.x + player.width / 2;
+    lights.addCone(
+      playerCenter,
+      player.y + player.height * 0.1,
+      laneWidth * PLAYER_HEADLIGHTS.spread,
+      height * PLAYER_HEADLIGHTS.reach,
+      1
+    );
+    lights.addGlow(playerCenter, player.y + player.height / 2, player.width, 0.7);
+
+    // Traffic lights the road ahead of itself and shows its rear only faintly by its tail lights
+    enemies.forEach(enemy => {
+      const center = enemy.x + enemy.width / 2;
+      lights.addCone(
+        center,
+        enemy.y + enemy.height * 0.1,
+        laneWidth * ENEMY_HEADLIGHTS.spread,
+        height * ENEMY_HEADLIGHTS.reach,
+        0.8
+      );
+      lights.addGlow(center, enemy.y + enemy.height, enemy.width * 0.6, 0.3);
+    });
+    if (boss) {
+      lights.addGlow(boss.x + boss.width / 2, boss.y + boss.height, boss.width * 0.6, 0.5);
+    }
+
+    // Pickups shine a little so they can be found off the beam
+    [...world.seeds, ...world.powerUps].forEach(pickup => {
+      lights.addGlow(pickup.x + pickup.width / 2, pickup.y + pickup.height / 2, pickup.width, 0.5);
+    });
+
+    world.decorations.forEach(decoration => {
+      if (getDecorationKind(decoration, this.theme) !== 'lamp') return;
+
+      const { head } = this.getLampPosition(decoration);
+      lights.addGlow(head.x, head.y + decoration.size * 0.3, decoration.size, 0.8);
+    });
+
+    // Burning wrecks light up their surroundings
+    world.explosions.forEach(particle => {
+      lights.addGlow(particle.x, particle.y, particle.size * 4, particle.alpha * 0.3);
+    });
+
+    lights.draw(this.ctx, this.dimensions);
+
+    // Light sources on top of the dark
+    const tailLight = (car: { x: number; y: number; width: number; height: number }) => {
+      const radius = car.width * 0.18;
+      lights.drawColoredGlow(this.ctx, TAIL_LIGHT, car.x + car.width * 0.2, car.y + car.height * 0.95, radius, 0.8);
+      lights.drawColoredGlow(this.ctx, TAIL_LIGHT, car.x + car.width * 0.8, car.y + car.height * 0.95, radius, 0.8);
+    };
+    tailLight(player);
+    enemies.forEach(tailLight);
+    if (boss) {
+      tailLight(boss);
+    }
+    lights.drawColoredGlow(this.ctx, HEADLIGHT_TINT, playerCenter, player.y, player.width * 0.5, 0.4);
+
+    if (lighting.lampGlow) {
+      this.drawLampGlows(world.decorations, lighting.lampGlow);
+    }
+  }
+
+  // Rain and snow fading in and out with the weather, and fog hiding the road ahead of the player
+  private drawWeather(world: WorldState): void {
+    const ctx = this.ctx;
+
+    WEATHER_TYPES.forEach(type => {
+      const intensity = getWeatherIntensity(world.weather, type.id);
+      if (intensity <= 0) {
+        delete this.weatherParticles[type.id];
+        return;
+      }
+
+      if (type.particles) {
+        const particles = this.weatherParticles[type.id] ?? new AmbientParticles();
+        this.weatherParticles[type.id] = particles;
+        particles.update(type.particles, this.dimensions, world.gameTime);
+
+        ctx.save();
+        ctx.globalAlpha = intensity;
+        particles.draw(ctx, type.particles);
+        ctx.restore();
+      }
+
+      if (type.fog) {
+        const visibility = blendWeather(world.weather, weather => weather.visibility);
+        const horizon = world.player.y - visibility * this.dimensions.height;
+        const [r, g, b] = type.fog;
+
+        const gradient = ctx.createLinearGradient(0, horizon - FOG_FADE, 0, horizon + FOG_FADE);
+        gradient.addColorStop(0, `rgba(${r}, ${g}, ${b}, ${0.95 * intensity})`);
+        gradient.addColorStop(1, `rgba(${r}, ${g}, ${b}, 0)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, this.dimensions.width, this.dimensions.height);
+      }
+    });
+  }
+
+  // Cached road surface scrolled along with the distance travelled, then the moving lane markings
+  private drawRoad(world: WorldState): void {
+    this.layers.drawGround(this.ctx, this.dimensions, world.distance * PIXELS_PER_METRE);
+    world.roadMarkings.forEach(marking => this.drawRoadMarking(marking.y));
+  }
+
+  private drawRoadMarking(y: number): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    // Draw lane markings
+    ctx.strokeStyle = this.theme.palette.laneMarking;
+    ctx.lineWidth = 5;
+
+    // One divider between each pair of adjacent lanes
+    for (let lane = 0; lane < this.layout.laneCount - 1; lane++) {
+      const x = this.layout.lanePositions[lane] + this.layout.laneWidth / 2;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x, y + 40);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
+  // Checkered band across the road, reaching the front of the player as the stage ends
+  private drawFinishLine(stage: StageRun, distance: number, player: PlayerCar): void {
+    const y = player.y - (stage.length - distance) * PIXELS_PER_METRE;
+    const size = this.layout.laneWidth / 6;
+    if (y < -size * 2 || y > this.dimensions.height) return;
+
+    const roadLeft = this.layout.roadCenterX - this.layout.roadWidth / 2;
+    const columns = Math.ceil(this.layout.roadWidth / size);
+    for (let row = 0; row < 2; row++) {
+      for (let column = 0; column < columns; column++) {
+        this.ctx.fillStyle = (row + column) % 2 === 0 ? '#fff' : '#111';
+        this.ctx.fillRect(
+          roadLeft + column * size,
+          y - (row + 1) * size,
+          Math.min(size, this.layout.roadWidth - column * size),
+          size
+        );
+      }
+    }
+  }
+
+  private drawHazard(hazard: Hazard): void {
+    switch (hazard.kind) {
+      case 'oil':
+        this.drawOilSlick(hazard);
+        break;
+      case 'pothole':
+        this.drawPothole(hazard);
+        break;
+      case 'construction':
+        this.drawConstructionZone(hazard);
+        break;
+    }
+  }
+
+  private drawOilSlick(oil: Hazard): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    const centerX = oil.x + oil.width / 2;
+    const centerY = oil.y + oil.height / 2;
+
+    // Dark puddle with a rainbow sheen
+    ctx.fillStyle = 'rgba(10, 10, 20, 0.85)';
+    ctx.beginPath();
+    ctx.ellipse(centerX, centerY, oil.width / 2, oil.height / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    const sheen = ctx.createLinearGradient(oil.x, oil.y, oil.x + oil.width, oil.y + oil.height);
+    sheen.addColorStop(0, 'rgba(155, 135, 245, 0.35)');
+    sheen.addColorStop(0.5, 'rgba(76, 201, 240, 0.25)');
+    sheen.addColorStop(1, 'rgba(145, 211, 209, 0.35)');
+    ctx.fillStyle = sheen;
+    ctx.beginPath();
+    ctx.ellipse(centerX - oil.width * 0.1, centerY - oil.height * 0.1, oil.width / 4, oil.height / 5, -0.4, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.restore();
+  }
+
+  private drawPothole(pothole: Hazard): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    const centerX = pothole.x + pothole.width / 2;
+    const centerY = pothole.y + pothole.height / 2;
+
+    // Broken rim around a dark hole
+    ctx.fillStyle = '#2a2a2a';
+    ctx.beginPath();
+    ctx.ellipse(centerX, centerY, pothole.width / 2, pothole.height / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = '#0d0d0d';
+    ctx.beginPath();
+    ctx.ellipse(centerX, centerY + pothole.height * 0.05, pothole.width * 0.35, pothole.height * 0.32, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.restore();
+  }
+
+  private drawConstructionZone(zone: Hazard): void {
+    const ctx = this.ctx;
+    const { laneWidth } = this.layout;
+    ctx.save();
+
+    // Closed stretch of lane
+    ctx.fillStyle = 'rgba(255, 140, 0, 0.25)';
+    ctx.fillRect(zone.x, zone.y, zone.width, zone.height);
+
+    // Cones down both edges
+    const coneSize = laneWidth * 0.18;
+    for (let y = zone.y; y <= zone.y + zone.height - coneSize; y += coneSize * 2.5) {
+      this.drawCone(zone.x + coneSize * 0.8, y, coneSize);
+      this.drawCone(zone.x + zone.width - coneSize * 0.8, y, coneSize);
+    }
+
+    // Warning taper ahead of the closure, narrowing towards the open road
+    const warning = laneWidth * CONSTRUCTION_WARNING_LENGTH;
+    const steps = 4;
+    for (let i = 1; i <= steps; i++) {
+      const y = zone.y + zone.height + (warning / steps) * i - coneSize;
+      const inset = (zone.width / 2) * (i / (steps + 1));
+      this.drawCone(zone.x + inset, y, coneSize);
+      this.drawCone(zone.x + zone.width - inset, y, coneSize);
+    }
+
+    ctx.restore();
+  }
+
+  // Traffic cone with its base centred on x
+  private drawCone(x: number, y: number, size: number): void {
+    const ctx = this.ctx;
+
+    ctx.fillStyle = '#ff7a00';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + size / 2, y + size);
+    ctx.lineTo(x - size / 2, y + size);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x - size * 0.28, y + size * 0.45, size * 0.56, size * 0.15);
+  }
+
+  // Stand-in for the simulation's trees and bushes from the theme's decoration set
+  private drawDecoration(decoration: Decoration): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    switch (getDecorationKind(decoration, this.theme)) {
+      case 'tree':
+        this.drawTree(decoration);
+        break;
+      case 'bush':
+        this.drawBush(decoration);
+        break;
+      case 'pine':
+        this.drawPine(decoration);
+        break;
+      case 'snowman':
+        this.drawSnowman(decoration);
+        break;
+      case 'cactus':
+        this.drawCactus(decoration);
+        break;
+      case 'rock':
+        this.drawRock(decoration);
+        break;
+      case 'lamp':
+        this.drawLamp(decoration);
+        break;
+    }
+
+    ctx.restore();
+  }
+
+  private drawDecorationShadow(decoration: Decoration, alpha: number): void {
+    this.ctx.fillStyle = `rgba(0, 0, 0, ${alpha})`;
+    this.ctx.beginPath();
+    this.ctx.ellipse(
+      decoration.x + decoration.size / 2,
+      decoration.y + decoration.size * 0.95,
+      decoration.size * 0.4,
+      decoration.size * 0.1,
+      0, 0, Math.PI * 2
+    );
+    this.ctx.fill();
+  }
+
+  private drawTree(decoration: Decoration): void {
+    const ctx = this.ctx;
+
+    // Create slight shadow beneath the tree
+    this.drawDecorationShadow(decoration, 0.2);
+
+    // Draw tree trunk with texture
+    ctx.fillStyle = '#6B4226';
+    const trunkWidth = decoration.size * 0.2;
+    const trunkHeight = decoration.size * 0.5;
+
+    // Trunk base color
+    ctx.fillRect(
+      decoration.x + (decoration.size - trunkWidth) / 2,
+      decoration.y + decoration.size - trunkHeight,
+      trunkWidth,
+      trunkHeight
+    );
+
+    // Trunk texture/details
+    ctx.fillStyle = '#5e3b14';
+    ctx.fillRect(
+      decoration.x + (decoration.size - trunkWidth) / 2 + trunkWidth * 0.2,
+      decoration.y + decoration.size - trunkHeight,
+      trunkWidth * 0.2,
+      trunkHeight
+    );
+
+    ctx.fillStyle = '#8b5a2b';
+    ctx.fillRect(
+      decoration.x + (decoration.size - trunkWidth) / 2 + trunkWidth * 0.6,
+      decoration.y + decoration.size - trunkHeight,
+      trunkWidth * 0.3,
+      trunkHeight
+    );
+
+    // Oak tree (round shape)
+
+    // Draw tree crown (circular shape with variations)
+    const centerX = decoration.x + decoration.size / 2;
+    const centerY = decoration.y + decoration.size * 0.4;
+    const radius = decoration.size * 0.4;
+
+    // Draw shadow
+    ctx.fillStyle = '#1C3F1C';
+    ctx.beginPath();
+    ctx.arc(
+      centerX + radius * 0.1,
+      centerY + radius * 0.1,
+      radius * 1.05,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Main foliage gradient
+    const gradient = ctx.createRadialGradient(
+      centerX - radius * 0.2, centerY - radius * 0.2, radius * 0.1,
+      centerX, centerY, radius
+    );
+    gradient.addColorStop(0, '#3A7D44');
+    gradient.addColorStop(0.7, '#2A5A30');
+    gradient.addColorStop(1, '#1C3F1C');
+
+    // Draw main crown
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Add smaller circles for texture/foliage detail
+    ctx.fillStyle = '#3A7D44';
+
+    // Create variations in the foliage, the same for the tree every frame
+    const random = new SeededRandom(Math.floor(decoration.size * 1000));
+    for (let i = 0; i < 6; i++) {
+      const angle = random.next() * Math.PI * 2;
+      const distance = radius * 0.5 * random.next();
+      const blobRadius = radius * (0.4 + random.next() * 0.3);
+
+      ctx.beginPath();
+      ctx.arc(
+        centerX + Math.cos(angle) * distance,
+        centerY + Math.sin(angle) * distance,
+        blobRadius,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+
+    // Add highlights
+    ctx.fillStyle = '#4A8D54';
+    ctx.globalAlpha = 0.3;
+
+    ctx.beginPath();
+    ctx.arc(
+      centerX - radius * 0.3,
+      centerY - radius * 0.3,
+      radius * 0.5,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    ctx.globalAlpha = 1;
+  }
+
+  private drawBush(decoration: Decoration): void {
+    const ctx = this.ctx;
+
+    // Draw bush (circular shape with improved texture)
+
+    // Draw shadow beneath bush
+    this.drawDecorationShadow(decoration, 0.15);
+
+    // Create gradient for more realistic bush
+    const gradient = ctx.createRadialGradient(
+      decoration.x + decoration.size * 0.3,
+      decoration.y + decoration.size * 0.3,
+      decoration.size * 0.1,
+      decoration.x + decoration.size / 2,
+      decoration.y + decoration.size / 2,
+      decoration.size / 2
+    );
+    gradient.addColorStop(0, '#4A8D54');
+    gradient.addColorStop(0.6, '#3A7D44');
+    gradient.addColorStop(1, '#2D6A3A');
+
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(
+      decoration.x + decoration.size / 2,
+      decoration.y + decoration.size / 2,
+      decoration.size / 2,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Add some detail to the bush
+    ctx.fillStyle = '#2D6A3A';
+    ctx.globalAlpha = 0.5;
+
+    // First blob
+    ctx.beginPath();
+    ctx.arc(
+      decoration.x + decoration.size * 0.3,
+      decoration.y + decoration.size * 0.4,
+      decoration.size * 0.25,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Second blob
+    ctx.beginPath();
+    ctx.arc(
+      decoration.x + decoration.size * 0.7,
+      decoration.y + decoration.size * 0.5,
+      decoration.size * 0.2,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Add highlights
+    ctx.fillStyle = '#5A9D64';
+    ctx.globalAlpha = 0.3;
+
+    ctx.beginPath();
+    ctx.arc(
+      decoration.x + decoration.size * 0.4,
+      decoration.y + decoration.size * 0.3,
+      decoration.size * 0.15,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    ctx.globalAlpha = 1;
+  }
+
+  // Snow-covered fir: stacked triangles with white caps
+  private drawPine(decoration: Decoration): void {
+    const ctx = this.ctx;
+    const { x, y, size } = decoration;
+    const centerX = x + size / 2;
+
+    this.drawDecorationShadow(decoration, 0.15);
+
+    ctx.fillStyle = '#5b3a1e';
+    ctx.fillRect(centerX - size * 0.06, y + size * 0.75, size * 0.12, size * 0.22);
+
+    for (let tier = 0; tier < 3; tier++) {
+      const top = y + tier * size * 0.2;
+      const halfWidth = size * (0.22 + tier * 0.1);
+      const bottom = top + size * 0.4;
+
+      ctx.fillStyle = '#1f4d3a';
+      ctx.beginPath();
+      ctx.moveTo(centerX, top);
+      ctx.lineTo(centerX + halfWidth, bottom);
+      ctx.lineTo(centerX - halfWidth, bottom);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.fillStyle = '#f4f7fa';
+      ctx.beginPath();
+      ctx.moveTo(centerX, top);
+      ctx.lineTo(centerX + halfWidth * 0.45, top + size * 0.18);
+      ctx.lineTo(centerX - halfWidth * 0.45, top + size * 0.18);
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+
+  private drawSnowman(decoration: Decoration): void {
+    const ctx = this.ctx;
+    const { x, y, size } = decoration;
+    const centerX = x + size / 2;
+
+    this.drawDecorationShadow(decoration, 0.15);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = 'rgba(120, 140, 165, 0.6)';
+    ctx.lineWidth = 1;
+    [
+      { cy: y + size * 0.72, r: size * 0.26 },
+      { cy: y + size * 0.38, r: size * 0.18 }
+    ].forEach(ball => {
+      ctx.beginPath();
+      ctx.arc(centerX, ball.cy, ball.r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+
+    // Eyes and carrot nose
+    ctx.fillStyle = '#222';
+    ctx.fillRect(centerX - size * 0.08, y + size * 0.32, size * 0.04, size * 0.04);
+    ctx.fillRect(centerX + size * 0.04, y + size * 0.32, size * 0.04, size * 0.04);
+    ctx.fillStyle = '#f07a1a';
+    ctx.beginPath();
+    ctx.moveTo(centerX, y + size * 0.39);
+    ctx.lineTo(centerX + size * 0.16, y + size * 0.42);
+    ctx.lineTo(centerX, y + size * 0.44);
+    ctx.closePath();
+    ctx.fill();
+
+    // Hat
+    ctx.fillStyle = '#222';
+    ctx.fillRect(centerX - size * 0.16, y + size * 0.2, size * 0.32, size * 0.04);
+    ctx.fillRect(centerX - size * 0.1, y + size * 0.06, size * 0.2, size * 0.15);
+  }
+
+  // Saguaro: a trunk with two raised arms
+  private drawCactus(decoration: Decoration): void {
+    const ctx = this.ctx;
+    const { x, y, size } = decoration;
+    const centerX = x + size / 2;
+    const trunkWidth = size * 0.18;
+
+    this.drawDecorationShadow(decoration, 0.2);
+
+    ctx.lineCap = 'round';
+
+    const limb = (fromX: number, fromY: number, toX: number, toY: number, width: number) => {
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.moveTo(fromX, fromY);
+      ctx.lineTo(toX, toY);
+      ctx.stroke();
+    };
+
+    ctx.strokeStyle = '#3f7d3a';
+    limb(centerX, y + size * 0.95, centerX, y + size * 0.12, trunkWidth);
+
+    // Arms out to the side, then up
+    const armWidth = trunkWidth * 0.7;
+    limb(centerX, y + size * 0.55, centerX - size * 0.25, y + size * 0.55, armWidth);
+    limb(centerX - size * 0.25, y + size * 0.55, centerX - size * 0.25, y + size * 0.3, armWidth);
+    limb(centerX, y + size * 0.45, centerX + size * 0.22, y + size * 0.45, armWidth);
+    limb(centerX + size * 0.22, y + size * 0.45, centerX + size * 0.22, y + size * 0.22, armWidth);
+
+    // Ribs down the trunk
+    ctx.strokeStyle = '#2c5a29';
+    limb(centerX, y + size * 0.9, centerX, y + size * 0.18, 1);
+  }
+
+  private drawRock(decoration: Decoration): void {
+    const ctx = this.ctx;
+    const { x, y, size } = decoration;
+    const snowy = this.theme.id === 'snow';
+
+    this.drawDecorationShadow(decoration, 0.2);
+
+    ctx.fillStyle = snowy ? '#7d8794' : '#9c7a54';
+    ctx.beginPath();
+    ctx.moveTo(x + size * 0.1, y + size * 0.9);
+    ctx.lineTo(x + size * 0.2, y + size * 0.45);
+    ctx.lineTo(x + size * 0.5, y + size * 0.3);
+    ctx.lineTo(x + size * 0.85, y + size * 0.5);
+    ctx.lineTo(x + size * 0.9, y + size * 0.9);
+    ctx.closePath();
+    ctx.fill();
+
+    // Lit top face
+    ctx.fillStyle = snowy ? '#f4f7fa' : '#b8946a';
+    ctx.beginPath();
+    ctx.moveTo(x + size * 0.2, y + size * 0.45);
+    ctx.lineTo(x + size * 0.5, y + size * 0.3);
+    ctx.lineTo(x + size * 0.85, y + size * 0.5);
+    ctx.lineTo(x + size * 0.5, y + size * 0.55);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  // Street lamp leaning over the road from whichever side it stands on
+  private drawLamp(decoration: Decoration): void {
+    const ctx = this.ctx;
+    const { base, head } = this.getLampPosition(decoration);
+
+    this.drawDecorationShadow(decoration, 0.15);
+
+    ctx.strokeStyle = '#4b5563';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(base.x, base.y);
+    ctx.lineTo(base.x, head.y);
+    ctx.lineTo(head.x, head.y);
+    ctx.stroke();
+
+    ctx.fillStyle = '#fff3c4';
+    ctx.beginPath();
+    ctx.ellipse(head.x, head.y + 2, 5, 3, 0, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  private getLampPosition(decoration: Decoration): { base: { x: number; y: number }; head: { x: number; y: number } } {
+    const { x, y, size } = decoration;
+    const baseX = x + size / 2;
+    const towardsRoad = baseX < this.layout.roadCenterX ? 1 : -1;
+
+    return {
+      base: { x: baseX, y: y + size * 0.95 },
+      head: { x: baseX + towardsRoad * size * 0.35, y: y + size * 0.1 }
+    };
+  }
+
+  // Pools of light under the street lamps, added on top of the scene's lighting
+  private drawLampGlows(decorations: Decoration[], glow: string): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+
+    decorations.forEach(decoration => {
+      if (getDecorationKind(decoration, this.theme) !== 'lamp') return;
+
+      const { head } = this.getLampPosition(decoration);
+      const radius = decoration.size * 0.9;
+      const gradient = ctx.createRadialGradient(head.x, head.y, 0, head.x, head.y + radius * 0.3, radius);
+      gradient.addColorStop(0, glow);
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(head.x, head.y + radius * 0.3, radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    ctx.restore();
+  }
+
+  private drawGameObjects(world: WorldState): void {
+    // Draw player
+    this.drawPlayer(world.player, world.activePowerUps);
+
+    // Draw enemies
+    world.enemies.forEach(enemy => this.drawEnemy(enemy, world.gameTime));
+
+    // Draw the boss over the obstacles it drops
+    if (world.boss) {
+      this.drawBoss(world.boss, world.gameTime);
+    }
+
+    // Draw seeds
+    world.seeds.forEach(seed => this.drawSeed(seed));
+
+    // Draw power-ups
+    world.powerUps.forEach(powerUp => this.drawPowerUp(powerUp));
+
+    // Draw explosions
+    this.drawExplosions(world);
+  }
+
+  private drawPlayer(player: PlayerCar, activePowerUps: ActivePowerUp[]): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    // Draw the effects of active power-ups underneath the car
+    const effects = activePowerUps.map(active => getPowerUp(active.type)).filter(Boolean);
+    effects.forEach(definition => {
+      ctx.save();
+      definition.drawEffect?.(ctx, player);
+      ctx.restore();
+    });
+
+    ctx.globalAlpha = Math.min(1, ...effects.map(definition => definition.playerAlpha ?? 1));
+
+    try {
+      // Draw the player car image
+      ctx.drawImage(
+        this.assets.playerCarImage,
+        player.x,
+        player.y,
+        player.width,
+        player.height
+      );
+    } catch (e) {
+      // Fallback to drawing a simple car if image fails
+      console.warn("Error drawing player car image, using fallback:", e);
+      this.drawCarFallback(
+        player.x,
+        player.y,
+        player.width,
+        player.height,
+        '#3cbbbb'
+      );
+    }
+
+    ctx.restore();
+  }
+
+  private drawGhost(ghost: PlayerCar): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+
+    try {
+      ctx.drawImage(
+        this.assets.playerCarImage,
+        ghost.x,
+        ghost.y,
+        ghost.width,
+        ghost.height
+      );
+    } catch (e) {
+      this.drawCarFallback(ghost.x, ghost.y, ghost.width, ghost.height, '#ffffff');
+    }
+
+    ctx.restore();
+  }
+
+  private drawEnemy(enemy: EnemyCar, gameTime: number): void {
+    const ctx = this.ctx;
+    const archetype = getEnemyArchetype(enemy.archetype);
+
+    if (archetype.barrier) {
+      this.drawBarrier(enemy);
+      return;
+    }
+
+    if (archetype.crate) {
+      this.drawCrate(enemy);
+      return;
+    }
+
+    ctx.save();
+
+    try {
+      // Get the specific enemy car image to use
+      const enemyImage = this.assets.enemyCarImages[enemy.imageIndex ?? 0];
+      if (enemyImage) {
+        // Draw the enemy car image
+        ctx.drawImage(
+          enemyImage,
+          enemy.x,
+          enemy.y,
+          enemy.width,
+          enemy.height
+        );
+      } else {
+        throw new Error("Enemy car image not available");
+      }
+    } catch (e) {
+      // Fallback to drawing a simple car if image fails
+      console.warn("Error drawing enemy car image, using fallback");
+      this.drawCarFallback(
+        enemy.x,
+        enemy.y,
+        enemy.width,
+        enemy.height,
+        '#dd373c'
+      );
+    }
+
+    // Blink the indicator on the side it is about to move to
+    const change = enemy.laneChange;
+    if (change && change.elapsed < LANE_CHANGE_SIGNAL && Math.floor(change.elapsed / 150) % 2 === 0) {
+      const lightSize = enemy.width * 0.18;
+      const lightX = change.to > change.from ? enemy.x + enemy.width - lightSize : enemy.x;
+      ctx.fillStyle = '#ffb020';
+      ctx.shadowColor = '#ffb020';
+      ctx.shadowBlur = 8;
+      ctx.fillRect(lightX, enemy.y + enemy.height - lightSize, lightSize, lightSize);
+      ctx.fillRect(lightX, enemy.y, lightSize, lightSize);
+    }
+
+    // Police light bar flashing red and blue
+    if (archetype.siren) {
+      const flash = Math.floor(gameTime / 200) % 2 === 0;
+      const barWidth = enemy.width * 0.3;
+      const barHeight = enemy.height * 0.08;
+      const barY = enemy.y + enemy.height * 0.45;
+      const centerX = enemy.x + enemy.width / 2;
+      ctx.shadowBlur = 10;
+      ctx.fillStyle = flash ? '#ef4444' : '#3b82f6';
+      ctx.shadowColor = ctx.fillStyle;
+      ctx.fillRect(centerX - barWidth, barY, barWidth, barHeight);
+      ctx.fillStyle = flash ? '#3b82f6' : '#ef4444';
+      ctx.shadowColor = ctx.fillStyle;
+      ctx.fillRect(centerX, barY, barWidth, barHeight);
+    }
+
+    ctx.restore();
+  }
+
+  private drawBoss(boss: Boss, gameTime: number): void {
+    const ctx = this.ctx;
+    ctx.save();
+    getScriptedEvent(boss.event)?.drawBoss(ctx, boss, gameTime);
+    ctx.restore();
+  }
+
+  // Wooden crate dropped by a boss
+  private drawCrate(crate: EnemyCar): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    ctx.fillStyle = '#a16207';
+    ctx.fillRect(crate.x, crate.y, crate.width, crate.height);
+
+    // Planks framed by a cross brace
+    ctx.strokeStyle = '#713f12';
+    ctx.lineWidth = Math.max(2, crate.width * 0.08);
+    ctx.strokeRect(crate.x, crate.y, crate.width, crate.height);
+    ctx.beginPath();
+    ctx.moveTo(crate.x, crate.y);
+    ctx.lineTo(crate.x + crate.width, crate.y + crate.height);
+    ctx.moveTo(crate.x + crate.width, crate.y);
+    ctx.lineTo(crate.x, crate.y + crate.height);
+    ctx.stroke();
+
+    ctx.restore();
+  }
+
+  // Striped road barrier
+  private drawBarrier(barrier: EnemyCar): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    ctx.fillStyle = '#f5f5f5';
+    ctx.fillRect(barrier.x, barrier.y, barrier.width, barrier.height);
+
+    // Diagonal red stripes clipped to the board
+    ctx.beginPath();
+    ctx.rect(barrier.x, barrier.y, barrier.width, barrier.height);
+    ctx.clip();
+    ctx.fillStyle = '#e63946';
+    const stripe = barrier.height;
+    for (let x = barrier.x - stripe; x < barrier.x + barrier.width; x += stripe * 2) {
+      ctx.beginPath();
+      ctx.moveTo(x, barrier.y + barrier.height);
+      ctx.lineTo(x + stripe, barrier.y);
+      ctx.lineTo(x + stripe * 2, barrier.y);
+      ctx.lineTo(x + stripe, barrier.y + barrier.height);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = '#222';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(barrier.x, barrier.y, barrier.width, barrier.height);
+
+    ctx.restore();
+  }
+
+  private drawCarFallback(x: number, y: number, width: number, height: number, color: string): void {
+    const ctx = this.ctx;
+
+    // Draw car body
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, width, height);
+
+    // Draw car details (windows, etc.)
+    ctx.fillStyle = '#222';
+
+    // Draw windows (top part of car)
+    const windowHeight = height * 0.3;
+    const windowWidth = width * 0.7;
+    const windowX = x + (width - windowWidth) / 2;
+    const windowY = y + height * 0.15;
+    ctx.fillRect(windowX, windowY, windowWidth, windowHeight);
+
+    // Draw headlights or taillights
+    ctx.fillStyle = '#ffdd00';
+
+    // Front lights
+    const lightSize = width * 0.15;
+    ctx.fillRect(x + width * 0.1, y + height * 0.1, lightSize, lightSize);
+    ctx.fillRect(x + width - width * 0.1 - lightSize, y + height * 0.1, lightSize, lightSize);
+  }
+
+  private drawSeed(seed: GameObject): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    // Try to use the seed image if available
+    if (this.assets.seedImage) {
+      try {
+        ctx.drawImage(
+          this.assets.seedImage,
+          seed.x,
+          seed.y,
+          seed.width,
+          seed.height
+        );
+
+        // Add a subtle glow effect behind the image
+        ctx.shadowColor = '#ffdb4d';
+        ctx.shadowBlur = 10;
+        ctx.drawImage(
+          this.assets.seedImage,
+          seed.x,
+          seed.y,
+          seed.width,
+          seed.height
+        );
+        ctx.shadowBlur = 0;
+      } catch (e) {
+        // Fall back to drawing a circle if the image fails
+        this.drawSeedFallback(seed);
+      }
+    } else {
+      // No image available, use fallback
+      this.drawSeedFallback(seed);
+    }
+
+    ctx.restore();
+  }
+
+  private drawSeedFallback(seed: GameObject): void {
+    const ctx = this.ctx;
+
+    // Draw seed (a small circle)
+    ctx.fillStyle = '#ffdb4d';
+    ctx.beginPath();
+    ctx.arc(
+      seed.x + seed.width / 2,
+      seed.y + seed.height / 2,
+      seed.width / 2,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Add a small glow effect
+    ctx.shadowColor = '#ffdb4d';
+    ctx.shadowBlur = 10;
+    ctx.beginPath();
+    ctx.arc(
+      seed.x + seed.width / 2,
+      seed.y + seed.height / 2,
+      seed.width / 3,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+  }
+
+  private drawPowerUp(powerUp: GameObject): void {
+    const definition = getPowerUp(powerUp.powerUpType);
+    if (!definition) return;
+
+    const ctx = this.ctx;
+    ctx.save();
+
+    const color = definition.color;
+
+    // Draw power-up shape (circled hexagon)
+    ctx.fillStyle = color;
+
+    // Draw circle
+    ctx.beginPath();
+    ctx.arc(
+      powerUp.x + powerUp.width / 2,
+      powerUp.y + powerUp.height / 2,
+      powerUp.width / 2,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+
+    // Draw the power-up's icon
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+
+    definition.drawIcon(
+      ctx,
+      powerUp.x + powerUp.width / 2,
+      powerUp.y + powerUp.height / 2,
+      powerUp.width * 0.35
+    );
+
+    // Add a glow effect
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 10;
+    ctx.beginPath();
+    ctx.arc(
+      powerUp.x + powerUp.width / 2,
+      powerUp.y + powerUp.height / 2,
+      powerUp.width / 3,
+      0,
+      Math.PI * 2
+    );
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.fill();
+
+    ctx.restore();
+  }
+
+  private drawExplosions(world: WorldState): void {
+    world.explosions.forEach(particle => {
+      this.ctx.save();
+      this.ctx.globalAlpha = particle.alpha;
+      this.ctx.fillStyle = particle.color;
+      this.ctx.beginPath();
+      this.ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.restore();
+    });
+  }
+
+  private drawUI(gameState: GameState): void {
+    const { width, height } = this.dimensions;
+
+    // Draw game state UI
+    if (gameState === GameState.START_SCREEN) {
+      // Start screen UI is handled in the React component
+    } else if (gameState === GameState.PAUSED) {
+      // Draw pause screen
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      this.ctx.fillRect(0, 0, width, height);
+
+      this.ctx.fillStyle = '#fff';
+      this.ctx.font = '30px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.fillText('PAUSED', width / 2, height / 2);
+      this.ctx.font = '18px Arial';
+      this.ctx.fillText('Press P to resume', width / 2, height / 2 + 40);
+    } else if (gameState === GameState.GAME_OVER) {
+      // Game over UI is handled in the React component
+    }
+  }
+}
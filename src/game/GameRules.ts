@@ -0,0 +1,68 @@
+// Rule sets: how a run is lost, what can spawn in it and which high score it counts towards
+
+import { GameMode, PowerUpType } from './GameTypes';
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  lives: number; // At the start of a run
+  timeLimit?: number; // ms on the clock; the run ends when it runs out
+  crashTimePenalty?: number; // ms taken off the clock by a crash, instead of a life
+  disabledPowerUps?: PowerUpType[]; // Never spawned
+  noFailure?: boolean; // Crashes cost nothing, so the run lasts until it is quit
+  highScoreKey: string | null; // localStorage key the best score is kept under; null keeps none
+}
+
+export const ENDLESS_RULES: RuleSet = {
+  id: 'endless',
+  name: 'Endless',
+  lives: 3,
+  highScoreKey: 'highScore'
+};
+
+export const TIME_ATTACK_RULES: RuleSet = {
+  id: 'time-attack',
+  name: 'Time Attack',
+  lives: 3,
+  timeLimit: 90000,
+  crashTimePenalty: 5000,
+  disabledPowerUps: [PowerUpType.EXTRA_LIFE],
+  highScoreKey: 'timeAttackHighScore'
+};
+
+export const HARDCORE_RULES: RuleSet = {
+  id: 'hardcore',
+  name: 'Hardcore',
+  lives: 1,
+  disabledPowerUps: [PowerUpType.EXTRA_LIFE],
+  highScoreKey: 'hardcoreHighScore'
+};
+
+export const PRACTICE_RULES: RuleSet = {
+  id: 'practice',
+  name: 'Practice',
+  lives: 3,
+  noFailure: true,
+  highScoreKey: null
+};
+
+export const RULE_SETS: RuleSet[] = [ENDLESS_RULES, TIME_ATTACK_RULES, HARDCORE_RULES, PRACTICE_RULES];
+
+// Rule set by id, falling back to endless for unknown ids
+export function getRuleSet(id: string | undefined): RuleSet {
+  return RULE_SETS.find(rules => rules.id === id) ?? ENDLESS_RULES;
+}
+
+// Rules a game mode is played under
+export function getModeRules(mode: GameMode): RuleSet {
+  switch (mode) {
+    case GameMode.TIME_ATTACK:
+      return TIME_ATTACK_RULES;
+    case GameMode.HARDCORE:
+      return HARDCORE_RULES;
+    case GameMode.PRACTICE:
+      return PRACTICE_RULES;
+    default:
+      return ENDLESS_RULES;
+  }
+}
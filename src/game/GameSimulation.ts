@@ -0,0 +1,1968 @@
+// Headless game simulation - no canvas, DOM or storage access
+
+import {
+  ActivePowerUp,
+  Decoration,
+  Dimensions,
+  EnemyCar,
+  GameObject,
+  Hazard,
+  HazardKind,
+  InputAction,
+  NearMiss,
+  PlayerCar,
+  PowerUpType,
+  QueuedSpawn,
+  RoadLayout,
+  RunResult,
+  ScoreBreakdown,
+  ScriptedEvent,
+  ScriptedEventPhase,
+  SpawnChannel,
+  StageResult,
+  StageRun,
+  WeatherKind,
+  WeatherState,
+  WorldState
+} from './GameTypes';
+import { SeededRandom, createRandomSeed } from './SeededRandom';
+import { DEFAULT_DIFFICULTY, DifficultyCurve, Keyframe, getDifficultyPreset, sampleKeyframes } from './DifficultyCurve';
+import {
+  DEFAULT_PATTERN_WEIGHTS,
+  LaneBlock,
+  TRAFFIC_PATTERNS,
+  TrafficPattern,
+  getPatternWidth,
+  hasSurvivablePath
+} from './TrafficPatterns';
+import { PowerUpContext, PowerUpDefinition, getPowerUp, pickPowerUp } from './PowerUps';
+import { ENDLESS_RULES, RuleSet } from './GameRules';
+import {
+  CONSTRUCTION_WARNING_LENGTH,
+  DEFAULT_HAZARD_WEIGHTS,
+  HAZARD_TYPES,
+  HazardType,
+  OIL_SLICK_DURATION,
+  POTHOLE_SEED_COST,
+  getHazardType
+} from './Hazards';
+import {
+  DEFAULT_ARCHETYPE_WEIGHTS,
+  ENEMY_ARCHETYPES,
+  EnemyArchetype,
+  FOLLOW_GAP,
+  LANE_CHANGE_DURATION,
+  LANE_CHANGE_SIGNAL,
+  getEnemyArchetype
+} from './EnemyArchetypes';
+import {
+  BOSS_TOP,
+  EVENT_LEAVING_TIME,
+  EVENT_WARNING_TIME,
+  ScriptedEventContext,
+  ScriptedEventDefinition,
+  getScriptedEvent,
+  getScriptedEvents
+} from './ScriptedEvents';
+import type { StageDefinition } from './Stages';
+import {
+  WEATHER_SEED_SALT,
+  WEATHER_SPELL,
+  WEATHER_TRANSITION,
+  blendWeather,
+  pickWeather
+} from './Weather';
+
+// Fixed simulation step (~60 fps)
+export const TIME_STEP = 16;
+
+// Most steps a headless drive down the road takes, half an hour of game time, so a road that
+// hardly moves can't hang the page
+export const MAX_HEADLESS_TICKS = (30 * 60 * 1000) / TIME_STEP;
+
+export interface SimulationEvents {
+  onScoreChange?: (score: number) => void;
+  onLivesChange?: (lives: number) => void;
+  onTimeLeftChange?: (timeLeft: number) => void; // Sent each whole second and on crash penalties in timed runs
+  onPowerUpStart?: (type: PowerUpType, duration: number) => void;
+  onPowerUpEnd?: (type: PowerUpType) => void;
+  onCollision?: () => void;
+  onSeedCollect?: () => void;
+  onGameOver?: (result: RunResult) => void;
+  onScoreBreakdown?: (breakdown: ScoreBreakdown) => void; // Sent when the run ends
+  onComboChange?: (streak: number, multiplier: number) => void;
+  onNearMiss?: (nearMiss: NearMiss) => void;
+  onActivePowerUpsChange?: (active: ActivePowerUp[]) => void; // Timed effects gained, stacked or lost
+  onPowerUpOverflow?: (type: PowerUpType, points: number) => void; // Capped pickup turned into points
+  onHazardHit?: (kind: HazardKind) => void;
+  onScriptedEventChange?: (event: ScriptedEvent | null) => void; // Boss encounter started or changed phase, null once over
+  onScriptedEventEnd?: (id: string, reward: number) => void; // Boss encounter survived
+  onStageProgress?: (stage: StageRun) => void; // Distance, seeds or damage changed on a campaign stage
+  onWeatherChange?: (weather: WeatherKind) => void; // New weather starting to move in
+}
+
+export interface SimulationOptions {
+  enemyVariants?: number; // Number of enemy car sprites to pick from
+  seed?: number; // Seed for the first run, random if omitted
+  laneCount?: number; // Lanes on the road, 2-6
+  difficulty?: DifficultyCurve; // Defaults to the Normal preset
+  stage?: StageDefinition; // Play a finite campaign stage instead of the endless road
+  rules?: RuleSet; // Defaults to endless
+  weather?: boolean; // Let the weather change over endless runs
+  spectator?: boolean; // Keep the player out of every collision, to watch the traffic go by
+}
+
+// Live overrides for practice runs; anything left unset follows the difficulty curve
+export interface SimulationTuning {
+  gameSpeed?: number;
+  enemySpawnInterval?: number; // ms
+  seedSpawnInterval?: number; // ms
+  powerUpSpawnInterval?: number; // ms
+  disabledPowerUps?: PowerUpType[]; // Never spawned, on top of the rule set's
+}
+
+// Road pixels per metre of distance travelled
+export const PIXELS_PER_METRE = 10;
+
+// Fraction of the remaining distance to the target lane covered per ms
+const LANE_CHANGE_RATE = 0.01;
+
+// Time taken to close a gap at the lane change rate, mirroring updatePlayer
+function getSettleTime(gap: number): number {
+  let remaining = gap;
+  let time = 0;
+  while (remaining >= 2) {
+    remaining -= remaining * LANE_CHANGE_RATE * TIME_STEP;
+    time += TIME_STEP;
+  }
+  return time;
+}
+
+// Formations tried before giving up on a wave until the next spawn check
+const MAX_WAVE_ATTEMPTS = 6;
+
+// Scoring
+const DISTANCE_POINTS_PER_METRE = 0.05; // Scaled by game speed
+const SURVIVAL_BONUS = 25;
+const SURVIVAL_BONUS_INTERVAL = 15000; // ms without a crash
+const SEED_POINTS = 10;
+const NEAR_MISS_POINTS = 10; // Passing an enemy in the next lane
+const DODGE_POINTS = 25; // Finishing a lane change just before impact
+const DODGE_WINDOW = 40; // px between the enemy and the player when the change completes
+const COMBO_STEP = 5; // Seeds per +0.5 multiplier
+const MAX_COMBO_MULTIPLIER = 3;
+
+// Tallest a boss may be, as a fraction of the play field height, so it never reaches the player
+const MAX_BOSS_HEIGHT = 0.35;
+
+// Every normal spawn; campaign stages place everything themselves
+const SPAWN_CHANNELS: SpawnChannel[] = ['traffic', 'seeds', 'powerUps', 'hazards'];
+
+// Metres between the seeds of an authored line when the stage doesn't say
+export const DEFAULT_SEED_SPACING = 10;
+
+// One authored stage object, ready to be put on the road
+type StagePlacement =
+  | { at: number; lane: number; kind: 'enemy'; archetype: string; targetLane?: number }
+  | { at: number; lane: number; kind: 'seed' }
+  | { at: number; lane: number; kind: 'powerUp'; type: PowerUpType }
+  | { at: number; lane: number; kind: 'hazard'; hazard: HazardKind };
+
+// A car as the wave check sees it: the lanes it may occupy and how it moves
+interface TrafficBlockSource {
+  lanes: number[];
+  top: number;
+  height: number;
+  speed: number; // px per ms
+}
+
+export const DEFAULT_LANE_COUNT = 3;
+export const MIN_LANE_COUNT = 2;
+export const MAX_LANE_COUNT = 6;
+
+export function clampLaneCount(laneCount: number): number {
+  return Math.min(MAX_LANE_COUNT, Math.max(MIN_LANE_COUNT, Math.round(laneCount)));
+}
+
+// Calculate lane and road dimensions based on the play field size
+export function calculateLayout(dimensions: Dimensions, laneCount: number = DEFAULT_LANE_COUNT): RoadLayout {
+  laneCount = clampLaneCount(laneCount);
+
+  // Each lane takes a fifth of the screen, leaving at least some grass on wide roads
+  const roadWidth = dimensions.width * Math.min(laneCount / 5, 0.9);
+  const roadCenterX = dimensions.width / 2;
+  const laneWidth = roadWidth / laneCount;
+
+  return {
+    laneCount,
+    roadWidth,
+    roadCenterX,
+    laneWidth,
+    // Calculate lane positions (center x of each lane)
+    lanePositions: Array.from(
+      { length: laneCount },
+      (_, i) => roadCenterX + laneWidth * (i - (laneCount - 1) / 2)
+    )
+  };
+}
+
+export class GameSimulation {
+  private dimensions: Dimensions;
+  private layout: RoadLayout;
+  private world: WorldState;
+  private events: SimulationEvents;
+  private enemyVariants: number;
+  private laneCount: number;
+  private difficulty: DifficultyCurve;
+  private rules: RuleSet;
+  private tuning: SimulationTuning | null = null;
+
+  // Campaign stage, and its objects in the order they reach the road
+  private stage: StageDefinition | null;
+  private stagePlacements: StagePlacement[] = [];
+
+  // Nothing touches the player while set
+  private spectator: boolean;
+
+  private weatherEnabled: boolean;
+
+  // Every random decision in a run is drawn from this generator
+  private seed: number;
+  private random: SeededRandom;
+
+  // Except the weather's, so runs with and without weather see the same traffic
+  private weatherRandom: SeededRandom;
+
+  // Inputs received since the last step
+  private pendingInputs: InputAction[] = [];
+
+  // Game parameters
+  private decorationSpawnInterval: number = 800; // ms
+  private roadMarkingInterval: number = 300; // ms
+
+  constructor(dimensions: Dimensions, events: SimulationEvents = {}, options: SimulationOptions = {}) {
+    this.dimensions = { ...dimensions };
+    this.laneCount = clampLaneCount(options.laneCount ?? DEFAULT_LANE_COUNT);
+    this.layout = calculateLayout(this.dimensions, this.laneCount);
+    this.events = events;
+    this.enemyVariants = options.enemyVariants ?? 0;
+    this.difficulty = options.difficulty ?? getDifficultyPreset(DEFAULT_DIFFICULTY);
+    this.stage = options.stage ?? null;
+    this.rules = options.rules ?? ENDLESS_RULES;
+    this.spectator = options.spectator ?? false;
+    this.weatherEnabled = options.weather ?? false;
+    this.seed = options.seed ?? createRandomSeed();
+    this.random = new SeededRandom(this.seed);
+    this.weatherRandom = new SeededRandom(this.seed ^ WEATHER_SEED_SALT);
+    this.world = this.createWorld();
+  }
+
+  public getWorld(): WorldState {
+    return this.world;
+  }
+
+  public getLayout(): RoadLayout {
+    return this.layout;
+  }
+
+  public getDimensions(): Dimensions {
+    return this.dimensions;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getEnemyVariants(): number {
+    return this.enemyVariants;
+  }
+
+  public setEnemyVariants(count: number): void {
+    this.enemyVariants = count;
+  }
+
+  public getDifficulty(): DifficultyCurve {
+    return this.difficulty;
+  }
+
+  // Takes effect on the next reset
+  public setDifficulty(difficulty: DifficultyCurve): void {
+    this.difficulty = difficulty;
+  }
+
+  public getRules(): RuleSet {
+    return this.rules;
+  }
+
+  // Takes effect on the next reset
+  public setRules(rules: RuleSet): void {
+    this.rules = rules;
+  }
+
+  public getTuning(): SimulationTuning | null {
+    return this.tuning;
+  }
+
+  // Takes effect from the next step and is kept across resets; null follows the curve again
+  public setTuning(tuning: SimulationTuning | null): void {
+    this.tuning = tuning && { ...tuning };
+  }
+
+  public getWeatherEnabled(): boolean {
+    return this.weatherEnabled;
+  }
+
+  // Takes effect on the next reset
+  public setWeatherEnabled(enabled: boolean): void {
+    this.weatherEnabled = enabled;
+  }
+
+  public getStage(): StageDefinition | null {
+    return this.stage;
+  }
+
+  // Takes effect on the next reset; null goes back to the endless road
+  public setStage(stage: StageDefinition | null): void {
+    this.stage = stage;
+  }
+
+  // Run the road forward to a distance without the player touching anything, as if it had
+  // been driving there all along; whatever ends up on top of the player is driven through
+  public skipTo(distance: number): void {
+    const spectator = this.spectator;
+    this.spectator = true;
+    for (let ticks = 0; !this.world.over && this.world.distance < distance && ticks < MAX_HEADLESS_TICKS; ticks++) {
+      const before = this.world.distance;
+      this.step(TIME_STEP);
+
+      // A road at a standstill would never get there
+      if (this.world.distance <= before) break;
+    }
+    this.spectator = spectator;
+
+    const playerBox = this.getPlayerHitbox();
+    this.world.enemies.forEach(enemy => {
+      if (this.isColliding(playerBox, enemy)) {
+        enemy.phased = true;
+        enemy.nearMiss = true;
+      }
+    });
+  }
+
+  public getLaneCount(): number {
+    return this.laneCount;
+  }
+
+  // Takes effect on the next reset, since the player may be between lanes
+  public setLaneCount(laneCount: number): void {
+    this.laneCount = clampLaneCount(laneCount);
+  }
+
+  public resize(dimensions: Dimensions): void {
+    this.dimensions = { ...dimensions };
+    this.layout = calculateLayout(this.dimensions, this.layout.laneCount);
+
+    // Keep the player centred in its lane
+    const player = this.world.player;
+    player.lanePosition = this.layout.lanePositions[player.lane];
+    player.x = player.lanePosition - (player.width / 2);
+  }
+
+  // Start a new run, optionally with a new seed
+  public reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.random = new SeededRandom(this.seed);
+    this.weatherRandom = new SeededRandom(this.seed ^ WEATHER_SEED_SALT);
+    this.layout = calculateLayout(this.dimensions, this.stage?.laneCount ?? this.laneCount);
+    this.stagePlacements = this.stage ? this.getStagePlacements(this.stage) : [];
+    this.world = this.createWorld();
+    this.pendingInputs = [];
+    this.initRoadMarkings();
+
+    this.events.onScoreChange?.(this.world.score);
+    this.events.onLivesChange?.(this.world.player.lives);
+    if (this.world.timeLeft !== null) {
+      this.events.onTimeLeftChange?.(this.world.timeLeft);
+    }
+    this.events.onComboChange?.(0, 1);
+    this.events.onActivePowerUpsChange?.([]);
+    this.events.onScriptedEventChange?.(null);
+    this.emitStageProgress();
+  }
+
+  // Queue an input to be applied at the start of the next step
+  public queueInput(action: InputAction): void {
+    this.pendingInputs.push(action);
+  }
+
+  public step(deltaTime: number = TIME_STEP): void {
+    if (this.world.over) return;
+
+    this.world.tick++;
+    this.world.gameTime += deltaTime;
+
+    // Apply queued inputs
+    const inputs = this.pendingInputs;
+    this.pendingInputs = [];
+    inputs.forEach(action => this.applyInput(action));
+
+    // Update player
+    this.updatePlayer(deltaTime);
+
+    // Update enemies
+    this.updateEnemies(deltaTime);
+
+    // Update seeds; one slipping past breaks the combo
+    const pickupSpeed = 0.25 * this.getSpeedFactor();
+    this.world.seeds = this.moveObjects(this.world.seeds, pickupSpeed, deltaTime, () => this.resetCombo());
+
+    // Update power-ups
+    this.world.powerUps = this.moveObjects(this.world.powerUps, pickupSpeed, deltaTime);
+
+    // Update road markings
+    const roadSpeed = 0.3 * this.getSpeedFactor();
+    this.world.roadMarkings = this.moveObjects(this.world.roadMarkings, roadSpeed, deltaTime);
+
+    // Update decorations
+    this.world.decorations = this.moveObjects(this.world.decorations, roadSpeed, deltaTime);
+
+    // Hazards sit on the road surface and move with it
+    this.world.hazards = this.moveObjects(this.world.hazards, roadSpeed, deltaTime);
+
+    // Distance travelled scores more the faster the road is moving
+    const previousDistance = this.world.distance;
+    const metres = (roadSpeed * deltaTime) / PIXELS_PER_METRE;
+    this.world.distance += metres;
+    this.world.scoreBreakdown.distance += metres * DISTANCE_POINTS_PER_METRE * this.world.gameSpeed *
+      this.getPowerUpModifier('distanceMultiplier') * this.getPowerUpModifier('scoreMultiplier');
+
+    // Update explosions
+    this.updateExplosions(deltaTime);
+
+    // Check collisions
+    this.checkCollisions();
+
+    // Run any boss encounter
+    this.updateScriptedEvent(deltaTime);
+
+    // Spawn game objects
+    this.updateSpawns(deltaTime);
+
+    // Update power-up timers
+    this.updatePowerUps(deltaTime);
+
+    // Move the weather on, then update difficulty under its limits
+    this.updateWeather();
+    this.updateDifficulty();
+
+    // Award survival bonuses and report the new total
+    this.updateScore(deltaTime);
+
+    // Report stage progress and check for the finish line
+    this.updateStage(previousDistance);
+
+    // Run down the clock in timed runs
+    this.updateClock(deltaTime);
+  }
+
+  private createWorld(): WorldState {
+    const curve = this.difficulty;
+
+    return {
+      tick: 0,
+      gameTime: 0,
+      distance: 0,
+      score: 0,
+      scoreBreakdown: { distance: 0, survival: 0, seeds: 0, nearMiss: 0, nearMissCount: 0, powerUps: 0, bosses: 0, bestStreak: 0 },
+      seedStreak: 0,
+      survivalTimer: 0,
+      gameSpeed: this.stage
+        ? sampleKeyframes(this.stage.speed, 0, 'linear')
+        : sampleKeyframes(curve.speed, 0, curve.interpolation),
+      timeLeft: this.rules.timeLimit ?? null,
+      over: false,
+
+      player: this.createPlayer(),
+      enemies: [],
+      trafficQueue: [],
+      seeds: [],
+      powerUps: [],
+      hazards: [],
+      roadMarkings: [],
+      decorations: [],
+      explosions: [],
+      boss: null,
+
+      stage: this.stage ? this.createStageRun(this.stage) : null,
+
+      // Stages are authored for a dry road
+      weather: this.weatherEnabled && !this.stage ? this.createWeather() : null,
+
+      scriptedEvent: null,
+      nextEventDistance: this.stage ? 0 : curve.bossInterval ?? 0,
+
+      enemySpawnTimer: 0,
+      enemySpawnInterval: sampleKeyframes(curve.enemySpawnInterval, 0, curve.interpolation),
+      seedSpawnTimer: 0,
+      seedSpawnInterval: sampleKeyframes(curve.seedSpawnInterval, 0, curve.interpolation),
+      powerUpSpawnTimer: 0,
+      powerUpSpawnInterval: sampleKeyframes(curve.powerUpSpawnInterval, 0, curve.interpolation),
+      hazardSpawnTimer: 0,
+      hazardSpawnInterval: curve.hazardSpawnInterval
+        ? sampleKeyframes(curve.hazardSpawnInterval, 0, curve.interpolation)
+        : 0,
+      decorationSpawnTimer: 0,
+      roadMarkingTimer: 0,
+
+      activePowerUps: []
+    };
+  }
+
+  private getSpeedFactor(): number {
+    return this.world.gameSpeed * this.getPowerUpModifier('speedMultiplier');
+  }
+
+  // Product of a multiplier across the active power-ups
+  private getPowerUpModifier(key: 'speedMultiplier' | 'scoreMultiplier' | 'distanceMultiplier'): number {
+    return this.world.activePowerUps.reduce(
+      (factor, active) => factor * Math.pow(getPowerUp(active.type)?.[key] ?? 1, active.stacks),
+      1
+    );
+  }
+
+
+  // Move objects down the road and drop the ones that left the screen
+  private moveObjects<T extends { y: number; active: boolean }>(
+    objects: T[],
+    speed: number,
+    deltaTime: number,
+    onExit?: (obj: T) => void
+  ): T[] {
+    objects.forEach(obj => {
+      obj.y += speed * deltaTime;
+
+      // Check if out of bounds
+      if (obj.y > this.dimensions.height) {
+        obj.active = false;
+        onExit?.(obj);
+      }
+    });
+
+    return objects.filter(obj => obj.active);
+  }
+
+  private applyInput(action: InputAction): void {
+    const player = this.world.player;
+    if (player.transitioning) return;
+
+    // An oil slick takes over the next lane change
+    const isMove = action === InputAction.MOVE_LEFT || action === InputAction.MOVE_RIGHT;
+    if (isMove && player.slick) {
+      const { effect } = player.slick;
+      player.slick = null;
+      if (effect === 'lock') return;
+      action = this.random.next() < 0.5 ? InputAction.MOVE_LEFT : InputAction.MOVE_RIGHT;
+    }
+
+    switch (action) {
+      case InputAction.MOVE_LEFT:
+        if (player.lane > 0) {
+          player.targetLane = player.lane - 1;
+          player.transitioning = true;
+          player.slide = this.getLaneChangeSlide();
+        }
+        break;
+      case InputAction.MOVE_RIGHT:
+        if (player.lane < this.layout.laneCount - 1) {
+          player.targetLane = player.lane + 1;
+          player.transitioning = true;
+          player.slide = this.getLaneChangeSlide();
+        }
+        break;
+    }
+  }
+
+  private initRoadMarkings(): void {
+    // Add initial road markings
+    const markingsPerScreen = Math.ceil(this.dimensions.height / 80) + 1;
+    for (let i = 0; i < markingsPerScreen; i++) {
+      this.createRoadMarking(i * 80);
+    }
+  }
+
+  private createPlayer(): PlayerCar {
+    // Use the same aspect ratio for all cars (0.7 is a balanced ratio)
+    const aspectRatio = 0.7;
+    const width = this.layout.laneWidth * 0.9; // 90% of lane width
+    const height = width / aspectRatio;
+    const lane = Math.floor((this.layout.laneCount - 1) / 2); // Start in middle lane, left of centre if even
+
+    return {
+      x: this.layout.lanePositions[lane] - (width / 2),
+      y: this.dimensions.height - height - 20,
+      width,
+      height,
+      lane,
+      lanePosition: this.layout.lanePositions[lane],
+      targetLane: lane,
+      transitioning: false,
+      slide: 0,
+      lives: this.rules.lives,
+      slick: null,
+      active: true
+    };
+  }
+
+  private updatePlayer(deltaTime: number): void {
+    const player = this.world.player;
+
+    // Tyres grip again if the slick isn't used in time
+    if (player.slick) {
+      player.slick.remaining -= deltaTime;
+      if (player.slick.remaining <= 0) {
+        player.slick = null;
+      }
+    }
+
+    // Handle lane transitions
+    if (player.transitioning) {
+      const transitionSpeed = LANE_CHANGE_RATE * deltaTime;
+
+      // On a slippery road the car carries on past its lane before steering back into it
+      const { lanePositions } = this.layout;
+      const direction = Math.sign(lanePositions[player.targetLane] - lanePositions[player.lane]);
+      const target = lanePositions[player.targetLane] + direction * player.slide;
+      const diff = target - player.lanePosition;
+
+      if (Math.abs(diff) < 2 && player.slide > 0) {
+        player.slide = 0;
+      } else if (Math.abs(diff) < 2) {
+        const previousLane = player.lane;
+        player.lanePosition = target;
+        player.transitioning = false;
+        player.lane = player.targetLane;
+        this.checkDodge(previousLane);
+      } else {
+        player.lanePosition += diff * transitionSpeed;
+      }
+    }
+
+    player.x = player.lanePosition - (player.width / 2);
+  }
+
+  private updateExplosions(deltaTime: number): void {
+    // Update explosion particles
+    this.world.explosions.forEach(particle => {
+      particle.x += particle.vx * deltaTime * 0.05;
+      particle.y += particle.vy * deltaTime * 0.05;
+      particle.currentLife -= deltaTime;
+      particle.alpha = particle.currentLife / particle.lifetime;
+    });
+
+    // Remove expired particles
+    this.world.explosions = this.world.explosions.filter(particle => particle.currentLife > 0);
+  }
+
+  // Tighter box than the sprite for more precise collision detection
+  private getPlayerHitbox(): { x: number; y: number; width: number; height: number } {
+    const player = this.world.player;
+    const collisionMargin = 10; // Reduce collision box size by this amount on each side
+
+    return {
+      x: player.x + collisionMargin,
+      y: player.y + collisionMargin,
+      width: player.width - (collisionMargin * 2),
+      height: player.height - (collisionMargin * 2)
+    };
+  }
+
+  // Lose a life to a crash at (x, y), or time in timed runs, ending the run when none is left
+  private crash(x: number, y: number): void {
+    const player = this.world.player;
+    const { crashTimePenalty } = this.rules;
+
+    // Player takes damage, unless crashes are free
+    if (crashTimePenalty !== undefined && this.world.timeLeft !== null) {
+      this.world.timeLeft = Math.max(0, this.world.timeLeft - crashTimePenalty);
+      this.events.onTimeLeftChange?.(this.world.timeLeft);
+    } else if (!this.rules.noFailure) {
+      player.lives--;
+      this.events.onLivesChange?.(player.lives);
+    }
+    this.resetCombo();
+    this.world.survivalTimer = 0;
+    this.createExplosion(x, y);
+
+    // Call collision callback for sound effect
+    this.events.onCollision?.();
+
+    if (this.world.stage) {
+      this.world.stage.damage++;
+      this.emitStageProgress();
+    }
+
+    // Check game over
+    if (player.lives <= 0 || this.world.timeLeft === 0) {
+      this.endRun();
+    }
+  }
+
+  // Finish the run, out of lives or time, or over a stage's finish line
+  private endRun(): void {
+    this.world.over = true;
+    this.updateScore(0);
+    this.events.onScoreBreakdown?.(this.getScoreBreakdown());
+    this.events.onGameOver?.({
+      score: this.world.score,
+      seed: this.seed,
+      difficulty: this.difficulty.id,
+      rules: this.rules.id,
+      stage: this.getStageResult() ?? undefined
+    });
+  }
+
+  private checkCollisions(): void {
+    if (this.spectator) return;
+
+    const player = this.world.player;
+
+    // Check enemy collisions - use a smaller collision box for more precise collisions
+    this.world.enemies.forEach(enemy => {
+      if (this.world.over || enemy.phased) return;
+
+      const playerBox = this.getPlayerHitbox();
+
+      // Enemy boxes follow the shape of their archetype
+      const { hitbox } = getEnemyArchetype(enemy.archetype);
+      const enemyBox = {
+        x: enemy.x + enemy.width * hitbox.x,
+        y: enemy.y + enemy.height * hitbox.y,
+        width: enemy.width * (1 - hitbox.x * 2),
+        height: enemy.height * (1 - hitbox.y * 2)
+      };
+
+      // Check if the tighter boxes are colliding
+      if (this.isColliding(playerBox, enemyBox)) {
+        const protector = this.getProtectingPowerUp();
+        if (protector) {
+          if (protector.protection === 'destroy') {
+            // Protected player smashes through the enemy
+            enemy.active = false;
+            this.createExplosion(enemy.x + enemy.width / 2, enemy.y + enemy.height / 2);
+          } else {
+            // Drive through it; no near-miss bonus for an enemy we were inside
+            enemy.phased = true;
+            enemy.nearMiss = true;
+          }
+
+          if (protector.consumeOnHit) {
+            this.consumePowerUp(protector.type);
+          }
+        } else {
+          enemy.active = false;
+          this.crash(enemy.x + enemy.width / 2, enemy.y + enemy.height / 2);
+        }
+      }
+    });
+
+    if (this.world.over) return;
+
+    this.checkPassingEnemies();
+
+    // Check seed collisions
+    this.world.seeds.forEach(seed => {
+      if (this.isColliding(player, seed)) {
+        seed.active = false;
+        this.collectSeed();
+
+        // Play seed collection sound if callback exists
+        this.events.onSeedCollect?.();
+      }
+    });
+
+    // Check power-up collisions
+    this.world.powerUps.forEach(powerUp => {
+      if (this.isColliding(player, powerUp) && powerUp.powerUpType !== undefined) {
+        powerUp.active = false;
+        this.activatePowerUp(powerUp.powerUpType);
+      }
+    });
+
+    this.checkHazards();
+  }
+
+  private checkHazards(): void {
+    const player = this.world.player;
+    const playerBox = this.getPlayerHitbox();
+
+    this.world.hazards.forEach(hazard => {
+      if (this.world.over || hazard.struck || !this.isColliding(playerBox, hazard)) return;
+      hazard.struck = true;
+
+      switch (hazard.kind) {
+        case 'oil':
+          player.slick = {
+            effect: this.random.next() < 0.5 ? 'lock' : 'random',
+            remaining: OIL_SLICK_DURATION
+          };
+          break;
+
+        case 'pothole': {
+          // Costs seeds rather than a life
+          const cost = Math.min(this.world.scoreBreakdown.seeds, POTHOLE_SEED_COST * SEED_POINTS);
+          this.world.scoreBreakdown.seeds -= cost;
+          this.resetCombo();
+          break;
+        }
+
+        case 'construction': {
+          const protector = this.getProtectingPowerUp();
+          if (protector) {
+            if (protector.consumeOnHit) {
+              this.consumePowerUp(protector.type);
+            }
+          } else {
+            this.crash(player.x + player.width / 2, player.y);
+          }
+          break;
+        }
+      }
+
+      this.events.onHazardHit?.(hazard.kind);
+    });
+  }
+
+  // Track enemies level with the player and award a near miss once they are past
+  private checkPassingEnemies(): void {
+    const player = this.world.player;
+
+    this.world.enemies.forEach(enemy => {
+      if (!enemy.active || enemy.passed) return;
+
+      const level = enemy.y < player.y + player.height && enemy.y + enemy.height > player.y;
+      if (level && Math.abs(enemy.lane - player.lane) === 1 && !player.transitioning) {
+        enemy.alongside = true;
+      }
+
+      if (enemy.y > player.y + player.height) {
+        enemy.passed = true;
+        if (enemy.alongside) {
+          this.awardNearMiss(enemy, 'pass', NEAR_MISS_POINTS);
+        }
+      }
+    });
+  }
+
+  // A lane change completing with an enemy about to hit the lane just left
+  private checkDodge(previousLane: number): void {
+    const player = this.world.player;
+
+    this.world.enemies.forEach(enemy => {
+      if (!enemy.active || enemy.lane !== previousLane || enemy.passed) return;
+
+      const gap = player.y - (enemy.y + enemy.height);
+      if (gap <= DODGE_WINDOW && enemy.y < player.y + player.height) {
+        this.awardNearMiss(enemy, 'dodge', DODGE_POINTS);
+      }
+    });
+  }
+
+  private awardNearMiss(enemy: GameObject, kind: NearMiss['kind'], points: number): void {
+    if (enemy.nearMiss) return;
+    enemy.nearMiss = true;
+
+    const bonus = Math.round(points * this.getComboMultiplier() * this.getPowerUpModifier('scoreMultiplier'));
+    this.world.scoreBreakdown.nearMiss += bonus;
+    this.world.scoreBreakdown.nearMissCount++;
+    this.events.onNearMiss?.({ kind, bonus });
+  }
+
+  // +0.5 for every COMBO_STEP seeds in a row
+  private getComboMultiplier(): number {
+    return Math.min(1 + Math.floor(this.world.seedStreak / COMBO_STEP) * 0.5, MAX_COMBO_MULTIPLIER);
+  }
+
+  private collectSeed(): void {
+    const world = this.world;
+    world.seedStreak++;
+    world.scoreBreakdown.bestStreak = Math.max(world.scoreBreakdown.bestStreak, world.seedStreak);
+    world.scoreBreakdown.seeds += Math.round(
+      SEED_POINTS * this.getComboMultiplier() * this.getPowerUpModifier('scoreMultiplier')
+    );
+    this.events.onComboChange?.(world.seedStreak, this.getComboMultiplier());
+
+    if (world.stage) {
+      world.stage.seeds++;
+      this.emitStageProgress();
+    }
+  }
+
+  private resetCombo(): void {
+    if (this.world.seedStreak === 0) return;
+    this.world.seedStreak = 0;
+    this.events.onComboChange?.(0, 1);
+  }
+
+  // Points rounded for display; distance points accumulate fractionally
+  private getScoreBreakdown(): ScoreBreakdown {
+    const breakdown = this.world.scoreBreakdown;
+    return { ...breakdown, distance: Math.floor(breakdown.distance) };
+  }
+
+  private updateScore(deltaTime: number): void {
+    const world = this.world;
+
+    world.survivalTimer += deltaTime;
+    if (world.survivalTimer >= SURVIVAL_BONUS_INTERVAL) {
+      world.scoreBreakdown.survival += SURVIVAL_BONUS * this.getPowerUpModifier('scoreMultiplier');
+      world.survivalTimer -= SURVIVAL_BONUS_INTERVAL;
+    }
+
+    const { distance, survival, seeds, nearMiss, powerUps, bosses } = this.getScoreBreakdown();
+    const score = distance + survival + seeds + nearMiss + powerUps + bosses;
+    if (score !== world.score) {
+      world.score = score;
+      this.events.onScoreChange?.(score);
+    }
+  }
+
+  private isColliding(
+    obj1: { x: number; y: number; width: number; height: number },
+    obj2: { x: number; y: number; width: number; height: number }
+  ): boolean {
+    return (
+      obj1.x < obj2.x + obj2.width &&
+      obj1.x + obj1.width > obj2.x &&
+      obj1.y < obj2.y + obj2.height &&
+      obj1.y + obj1.height > obj2.y
+    );
+  }
+
+  private createExplosion(x: number, y: number): void {
+    const particleCount = 20;
+    const colors = ['#ff6600', '#ffcc00', '#ff3300', '#ff9900'];
+
+    for (let i = 0; i < particleCount; i++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const speed = 1 + this.random.next() * 3;
+      const size = 2 + this.random.next() * 6;
+      const lifetime = 500 + this.random.next() * 1000;
+      const color = colors[this.random.nextInt(colors.length)];
+
+      this.world.explosions.push({
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        size,
+        color,
+        alpha: 1,
+        lifetime,
+        currentLife: lifetime
+      });
+    }
+  }
+
+  private updateSpawns(deltaTime: number): void {
+    const world = this.world;
+
+    // A scripted event stops the timers of the spawns it takes over
+    const suspended = this.getSuspendedSpawns();
+
+    // Put authored stage objects on the road as the track reaches them
+    if (world.stage) {
+      this.spawnStagePlacements();
+    }
+
+    // Release cars of the current wave, then plan the next once it is out
+    this.spawnQueuedTraffic();
+    if (!suspended.has('traffic')) {
+      world.enemySpawnTimer += deltaTime;
+      if (world.enemySpawnTimer >= world.enemySpawnInterval && world.trafficQueue.length === 0) {
+        this.planTrafficWave();
+      }
+    }
+
+    // Spawn seeds
+    if (!suspended.has('seeds')) {
+      world.seedSpawnTimer += deltaTime;
+      if (world.seedSpawnTimer >= world.seedSpawnInterval) {
+        this.spawnSeed();
+        world.seedSpawnTimer = 0;
+      }
+    }
+
+    // Spawn power-ups
+    if (!suspended.has('powerUps')) {
+      world.powerUpSpawnTimer += deltaTime;
+      if (world.powerUpSpawnTimer >= world.powerUpSpawnInterval) {
+        this.spawnPowerUp();
+        world.powerUpSpawnTimer = 0;
+      }
+    }
+
+    // Spawn hazards, if the difficulty curve has any
+    if (world.hazardSpawnInterval > 0 && !suspended.has('hazards')) {
+      world.hazardSpawnTimer += deltaTime;
+      if (world.hazardSpawnTimer >= world.hazardSpawnInterval) {
+        this.spawnHazard();
+        world.hazardSpawnTimer = 0;
+      }
+    }
+
+    // Spawn road markings
+    world.roadMarkingTimer += deltaTime;
+    if (world.roadMarkingTimer >= this.roadMarkingInterval) {
+      this.createRoadMarking(-80); // Start above the canvas
+      world.roadMarkingTimer = 0;
+    }
+
+    // Spawn decorations (trees and bushes)
+    world.decorationSpawnTimer += deltaTime;
+    if (world.decorationSpawnTimer >= this.decorationSpawnInterval) {
+      this.spawnDecoration();
+      world.decorationSpawnTimer = 0;
+    }
+  }
+
+  private spawnQueuedTraffic(): void {
+    const world = this.world;
+    world.trafficQueue = world.trafficQueue.filter(spawn => {
+      if (spawn.spawnAt > world.gameTime) return true;
+
+      // Queue up behind slow traffic that hasn't cleared the top of the road yet
+      const enemy = this.createEnemy(spawn);
+      world.enemies.forEach(ahead => {
+        if (this.sharesLane(enemy, ahead) && ahead.y < enemy.y + enemy.height + FOLLOW_GAP) {
+          enemy.y = Math.min(enemy.y, ahead.y - FOLLOW_GAP - enemy.height);
+        }
+      });
+
+      world.enemies.push(enemy);
+      return false;
+    });
+  }
+
+  // Queue a formation that still leaves the player a way through
+  private planTrafficWave(): void {
+    const world = this.world;
+    const laneCount = this.layout.laneCount;
+    const closedLanes = this.getClosedLanes();
+
+    for (let attempt = 0; attempt < MAX_WAVE_ATTEMPTS; attempt++) {
+      const pattern = this.pickTrafficPattern();
+      if (!pattern) break;
+
+      // Place the formation at a random base lane, randomly mirrored
+      const width = getPatternWidth(pattern);
+      const mirrored = this.random.next() < 0.5;
+      const baseLane = this.random.nextInt(laneCount - width + 1);
+      const wave: QueuedSpawn[] = pattern.cars.map(car => {
+        const lane = baseLane + (mirrored ? width - 1 - car.lane : car.lane);
+        const archetype = this.pickEnemyArchetype();
+        return {
+          lane,
+          spawnAt: world.gameTime + car.delay,
+          archetype: archetype.id,
+          targetLane: archetype.changesLane ? this.pickTargetLane(lane) : undefined
+        };
+      });
+
+      // Closed lanes stay closed to traffic until the construction zone has gone
+      const blocked = wave.some(spawn =>
+        closedLanes.has(spawn.lane) || (spawn.targetLane !== undefined && closedLanes.has(spawn.targetLane))
+      );
+
+      if (!blocked && this.isTrafficSurvivable(wave)) {
+        world.trafficQueue.push(...wave);
+        // Count the spawn interval from the last car of the wave
+        world.enemySpawnTimer = -Math.max(...pattern.cars.map(car => car.delay));
+        return;
+      }
+    }
+
+    // Nothing fits right now; try again after half an interval
+    world.enemySpawnTimer = world.enemySpawnInterval / 2;
+  }
+
+  // Weighted pick among the formations that fit on the road
+  private pickTrafficPattern(): TrafficPattern | null {
+    const patterns = TRAFFIC_PATTERNS.filter(pattern => getPatternWidth(pattern) <= this.layout.laneCount);
+    return this.pickWeighted(patterns, this.difficulty.patternWeights, DEFAULT_PATTERN_WEIGHTS);
+  }
+
+  private pickEnemyArchetype(): EnemyArchetype {
+    return (
+      this.pickWeighted(ENEMY_ARCHETYPES, this.difficulty.archetypeWeights, DEFAULT_ARCHETYPE_WEIGHTS) ??
+      getEnemyArchetype('car')
+    );
+  }
+
+  // Neighbouring lane a lane changer moves into
+  private pickTargetLane(lane: number): number {
+    if (lane === 0) return 1;
+    if (lane === this.layout.laneCount - 1) return lane - 1;
+    return this.random.next() < 0.5 ? lane - 1 : lane + 1;
+  }
+
+  // Pick by the curve's weight tracks at the current position, or the defaults without any
+  private pickWeighted<T extends { id: string }>(
+    items: T[],
+    tracks: Record<string, Keyframe[]> | undefined,
+    defaults: Record<string, number>
+  ): T | null {
+    const curve = this.difficulty;
+    const position = curve.axis === 'time' ? this.world.gameTime / 1000 : this.world.distance;
+
+    const candidates = items
+      .map(item => {
+        const track = tracks?.[item.id];
+        const weight = tracks
+          ? (track ? sampleKeyframes(track, position, curve.interpolation) : 0)
+          : defaults[item.id] ?? 0;
+        return { item, weight };
+      })
+      .filter(candidate => candidate.weight > 0);
+
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    if (total <= 0) return null;
+
+    let roll = this.random.next() * total;
+    for (const candidate of candidates) {
+      roll -= candidate.weight;
+      if (roll < 0) return candidate.item;
+    }
+    return candidates[candidates.length - 1].item;
+  }
+
+  // Check planned traffic, hazards and dropped enemies together with everything already on the road or queued
+  private isTrafficSurvivable(wave: QueuedSpawn[], hazards: Hazard[] = [], enemies: EnemyCar[] = []): boolean {
+    const world = this.world;
+    const player = world.player;
+    const roadSpeed = 0.3 * this.getSpeedFactor();
+
+    // A car spawning after a delay is where one spawned now would be that far back
+    const cars: TrafficBlockSource[] = [
+      ...[...world.enemies, ...enemies].map(enemy => ({
+        lanes: enemy.laneChange ? [enemy.laneChange.from, enemy.laneChange.to] : [enemy.lane],
+        top: enemy.y,
+        height: enemy.height,
+        speed: roadSpeed * enemy.speed
+      })),
+      ...[...world.hazards, ...hazards]
+        .filter(hazard => hazard.kind === 'construction')
+        .map(hazard => ({ lanes: [hazard.lane], top: hazard.y, height: hazard.height, speed: roadSpeed })),
+      ...[...world.trafficQueue, ...wave].map(spawn => {
+        const archetype = getEnemyArchetype(spawn.archetype);
+        const { height } = this.getEnemySize(archetype);
+        const speed = roadSpeed * archetype.speed;
+        return {
+          lanes: spawn.targetLane !== undefined ? [spawn.lane, spawn.targetLane] : [spawn.lane],
+          top: -height - (spawn.spawnAt - world.gameTime) * speed,
+          height,
+          speed
+        };
+      })
+    ];
+
+    const blocks: LaneBlock[] = [];
+    for (let lane = 0; lane < this.layout.laneCount; lane++) {
+      // Front of the queue first, so a faster car can be held up by any slower one ahead
+      const queue = cars
+        .filter(car => car.lanes.includes(lane))
+        .sort((a, b) => b.top - a.top);
+
+      let slowest = Infinity;
+      let latestEnd = -Infinity;
+      let nextTop = Infinity;
+      queue.forEach(car => {
+        const start = (player.y - (car.top + car.height)) / car.speed;
+        let end = (player.y + player.height - car.top) / car.speed;
+
+        // Held up by slower traffic, or spawned on top of it, it clears the player's row only after it
+        if (car.speed > slowest || car.top + car.height + FOLLOW_GAP > nextTop) {
+          end = Math.max(end, latestEnd + (FOLLOW_GAP + car.height) / slowest);
+        }
+
+        slowest = Math.min(slowest, car.speed);
+        latestEnd = Math.max(latestEnd, end);
+        nextTop = Math.min(nextTop, car.top);
+        if (end > 0) blocks.push({ lane, start, end });
+      });
+    }
+
+    // Allow for the road speeding up while the wave is on screen
+    const laneChangeTime = this.getLaneChangeTime() * 1.25;
+
+    return hasSurvivablePath(
+      blocks,
+      this.layout.laneCount,
+      player.targetLane,
+      player.transitioning ? laneChangeTime : 0,
+      laneChangeTime,
+      TIME_STEP * 4
+    );
+  }
+
+  // Time the player takes to settle in an adjacent lane, sliding past it first on a slippery road
+  public getLaneChangeTime(): number {
+    const slide = this.getLaneChangeSlide();
+    return getSettleTime(this.layout.laneWidth + slide) + (slide > 0 ? getSettleTime(slide) : 0);
+  }
+
+  // px a lane change started now carries the car past its lane
+  private getLaneChangeSlide(): number {
+    return blendWeather(this.world.weather, type => type.laneChangeSlide) * this.layout.laneWidth;
+  }
+
+  private getEnemySize(archetype: EnemyArchetype): { width: number; height: number } {
+    const width = this.layout.laneWidth * archetype.width;
+    return { width, height: width / archetype.aspectRatio };
+  }
+
+  private createEnemy(spawn: QueuedSpawn): EnemyCar {
+    const archetype = getEnemyArchetype(spawn.archetype);
+    const { width, height } = this.getEnemySize(archetype);
+
+    // Archetypes keep their own sprite; plain cars pick a random one
+    let imageIndex = 0;
+    if (this.enemyVariants > 0) {
+      imageIndex = archetype.sprite !== undefined
+        ? archetype.sprite % this.enemyVariants
+        : this.random.nextInt(this.enemyVariants);
+    }
+
+    return {
+      x: this.layout.lanePositions[spawn.lane] - (width / 2),
+      y: -height,
+      width,
+      height,
+      lane: spawn.lane,
+      active: true,
+      type: 'enemy',
+      imageIndex,
+      archetype: archetype.id,
+      speed: archetype.speed,
+      laneChange: spawn.targetLane !== undefined
+        ? { from: spawn.lane, to: spawn.targetLane, elapsed: 0 }
+        : undefined
+    };
+  }
+
+  // Move enemies at their own speeds without driving into slower traffic ahead
+  private updateEnemies(deltaTime: number): void {
+    const roadSpeed = 0.3 * this.getSpeedFactor();
+    const enemies = this.world.enemies;
+
+    // Nearest to the player first, so every car moves after the one in front of it
+    [...enemies].sort((a, b) => b.y - a.y).forEach(enemy => {
+      this.updateEnemyLaneChange(enemy, deltaTime);
+
+      let y = enemy.y + roadSpeed * enemy.speed * deltaTime;
+      enemies.forEach(ahead => {
+        if (ahead === enemy || !ahead.active || ahead.y <= enemy.y) return;
+        if (!this.sharesLane(enemy, ahead)) return;
+        y = Math.min(y, Math.max(enemy.y, ahead.y - FOLLOW_GAP - enemy.height));
+      });
+      enemy.y = y;
+
+      if (enemy.y > this.dimensions.height) {
+        enemy.active = false;
+      }
+    });
+
+    this.world.enemies = enemies.filter(enemy => enemy.active);
+  }
+
+  // Signal for a while, then slide into the target lane if it's clear
+  private updateEnemyLaneChange(enemy: EnemyCar, deltaTime: number): void {
+    const change = enemy.laneChange;
+    if (!change) return;
+
+    const wasSignalling = change.elapsed < LANE_CHANGE_SIGNAL;
+    change.elapsed += deltaTime;
+    if (change.elapsed < LANE_CHANGE_SIGNAL) return;
+
+    // Give up rather than cut into a car alongside
+    if (wasSignalling) {
+      const blocked = this.world.enemies.some(other =>
+        other !== enemy &&
+        other.active &&
+        other.lane === change.to &&
+        other.y < enemy.y + enemy.height + FOLLOW_GAP &&
+        other.y + other.height > enemy.y - FOLLOW_GAP
+      );
+      if (blocked) {
+        enemy.laneChange = undefined;
+        return;
+      }
+    }
+
+    const t = Math.min(1, (change.elapsed - LANE_CHANGE_SIGNAL) / LANE_CHANGE_DURATION);
+    const from = this.layout.lanePositions[change.from];
+    const to = this.layout.lanePositions[change.to];
+    enemy.x = from + (to - from) * t - enemy.width / 2;
+
+    if (t >= 1) {
+      enemy.lane = change.to;
+      enemy.laneChange = undefined;
+    }
+  }
+
+  // Whether two enemies occupy a common lane, counting both lanes of a lane change in progress
+  private sharesLane(a: EnemyCar, b: EnemyCar): boolean {
+    const lanesOf = (enemy: EnemyCar) =>
+      enemy.laneChange && enemy.laneChange.elapsed >= LANE_CHANGE_SIGNAL
+        ? [enemy.laneChange.from, enemy.laneChange.to]
+        : [enemy.lane];
+    const lanes = lanesOf(b);
+    return lanesOf(a).some(lane => lanes.includes(lane));
+  }
+
+  // Create a seed in the given lane, or a random one
+  private spawnSeed(lane: number = this.random.nextInt(this.layout.laneCount)): void {
+
+    // Seed size is DOUBLED from the original size (2x bigger)
+    const width = this.layout.laneWidth * 0.4; // 0.2 * 2 = 0.4
+    const height = width;
+
+    this.world.seeds.push({
+      x: this.layout.lanePositions[lane] - (width / 2),
+      y: -height,
+      width,
+      height,
+      lane,
+      active: true,
+      type: 'seed'
+    });
+  }
+
+  private spawnPowerUp(): void {
+    // Create a power-up at a random lane
+    const lane = this.random.nextInt(this.layout.laneCount);
+
+    // Pick a registered power-up by spawn weight
+    const definition = pickPowerUp(this.random.next(), [
+      ...(this.rules.disabledPowerUps ?? []),
+      ...(this.tuning?.disabledPowerUps ?? [])
+    ]);
+    if (!definition) return;
+
+    this.placePowerUp(lane, definition.type);
+  }
+
+  private placePowerUp(lane: number, powerUpType: PowerUpType): void {
+    // Power-up size is medium (between seed and car)
+    const width = this.layout.laneWidth * 0.3;
+    const height = width;
+
+    this.world.powerUps.push({
+      x: this.layout.lanePositions[lane] - (width / 2),
+      y: -height,
+      width,
+      height,
+      lane,
+      active: true,
+      type: 'powerUp',
+      powerUpType
+    });
+  }
+
+  private spawnHazard(): void {
+    const type = this.pickWeighted(HAZARD_TYPES, this.difficulty.hazardWeights, DEFAULT_HAZARD_WEIGHTS);
+    if (!type) return;
+
+    // Keep clear of closed lanes, and only close a lane no traffic is in or heading for
+    const closedLanes = this.getClosedLanes();
+    const lanes = Array.from({ length: this.layout.laneCount }, (_, lane) => lane)
+      .filter(lane => !closedLanes.has(lane) && (!type.blocksLane || this.isLaneEmpty(lane)));
+    if (lanes.length === 0) return;
+
+    const hazard = this.createHazard(type, lanes[this.random.nextInt(lanes.length)]);
+    if (type.blocksLane && !this.isTrafficSurvivable([], [hazard])) return;
+
+    this.world.hazards.push(hazard);
+  }
+
+  private createHazard(type: HazardType, lane: number): Hazard {
+    const { laneWidth, lanePositions } = this.layout;
+    const width = laneWidth * type.width;
+    const height = laneWidth * type.length;
+
+    // Construction zones start with their warning cones still above the screen
+    const warning = type.blocksLane ? laneWidth * CONSTRUCTION_WARNING_LENGTH : 0;
+
+    return {
+      x: lanePositions[lane] - (width / 2),
+      y: -height - warning,
+      width,
+      height,
+      lane,
+      active: true,
+      type: 'hazard',
+      kind: type.id
+    };
+  }
+
+  // Lanes closed by a construction zone that is still on or above the screen
+  private getClosedLanes(): Set<number> {
+    return new Set(
+      this.world.hazards.filter(hazard => hazard.kind === 'construction').map(hazard => hazard.lane)
+    );
+  }
+
+  private isLaneEmpty(lane: number): boolean {
+    const world = this.world;
+    return (
+      !world.enemies.some(enemy => enemy.lane === lane || enemy.laneChange?.to === lane) &&
+      !world.trafficQueue.some(spawn => spawn.lane === lane || spawn.targetLane === lane)
+    );
+  }
+
+  private createRoadMarking(y: number): void {
+    this.world.roadMarkings.push({ y, active: true });
+  }
+
+  private spawnDecoration(): void {
+    const { roadCenterX, roadWidth } = this.layout;
+
+    // 50% chance to spawn on left or right side
+    const isLeftSide = this.random.next() > 0.5;
+
+    // Randomize decoration type (70% trees, 30% bushes)
+    const type = this.random.next() > 0.3 ? 'tree' : 'bush';
+
+    // Calculate x position (distance from road edge)
+    const roadEdge = isLeftSide ?
+      roadCenterX - roadWidth / 2 :
+      roadCenterX + roadWidth / 2;
+
+    // Randomize distance from road (10-80px)
+    const distanceFromRoad = 10 + this.random.next() * 70;
+
+    // Calculate final x position
+    const x = isLeftSide ?
+      roadEdge - distanceFromRoad :
+      roadEdge + distanceFromRoad;
+
+    // Randomize size based on type
+    const baseSize = type === 'tree' ? 60 : 30;
+    const sizeVariation = type === 'tree' ? 30 : 15;
+    const size = baseSize + this.random.next() * sizeVariation;
+
+    const decoration: Decoration = {
+      x: isLeftSide ? x - size : x,
+      y: -size,
+      type,
+      size,
+      active: true
+    };
+
+    this.world.decorations.push(decoration);
+  }
+
+  // Follow the difficulty curve along its time or distance axis
+  private updateDifficulty(): void {
+    const world = this.world;
+    const curve = this.difficulty;
+    const position = curve.axis === 'time' ? world.gameTime / 1000 : world.distance;
+
+    world.gameSpeed = sampleKeyframes(curve.speed, position, curve.interpolation);
+    world.enemySpawnInterval = sampleKeyframes(curve.enemySpawnInterval, position, curve.interpolation);
+    world.seedSpawnInterval = sampleKeyframes(curve.seedSpawnInterval, position, curve.interpolation);
+    world.powerUpSpawnInterval = sampleKeyframes(curve.powerUpSpawnInterval, position, curve.interpolation);
+    world.hazardSpawnInterval = curve.hazardSpawnInterval
+      ? sampleKeyframes(curve.hazardSpawnInterval, position, curve.interpolation)
+      : 0;
+
+    // Stages set their own pace along the track
+    if (this.stage) {
+      world.gameSpeed = sampleKeyframes(this.stage.speed, world.distance, 'linear');
+    }
+
+    const tuning = this.tuning;
+    if (tuning) {
+      world.gameSpeed = tuning.gameSpeed ?? world.gameSpeed;
+      world.enemySpawnInterval = tuning.enemySpawnInterval ?? world.enemySpawnInterval;
+      world.seedSpawnInterval = tuning.seedSpawnInterval ?? world.seedSpawnInterval;
+      world.powerUpSpawnInterval = tuning.powerUpSpawnInterval ?? world.powerUpSpawnInterval;
+    }
+
+    // Bad weather holds the speed down, easing the limit in and out as it changes
+    const speed = world.gameSpeed;
+    world.gameSpeed = blendWeather(world.weather, type => Math.min(speed, type.topSpeed ?? speed));
+  }
+
+  // Clear skies, with the first change a spell away
+  private createWeather(): WeatherState {
+    return {
+      kind: 'clear',
+      next: null,
+      blend: 0,
+      changeAt: this.getWeatherSpell()
+    };
+  }
+
+  private getWeatherSpell(): number {
+    return WEATHER_SPELL.min + this.weatherRandom.next() * (WEATHER_SPELL.max - WEATHER_SPELL.min);
+  }
+
+  // Start a change once the spell is over and blend it in over the transition distance
+  private updateWeather(): void {
+    const weather = this.world.weather;
+    if (!weather) return;
+
+    const distance = this.world.distance;
+    if (!weather.next && distance >= weather.changeAt) {
+      weather.next = pickWeather(this.weatherRandom.next(), weather.kind);
+      this.events.onWeatherChange?.(weather.next);
+    }
+
+    if (weather.next) {
+      weather.blend = Math.min(1, (distance - weather.changeAt) / WEATHER_TRANSITION);
+      if (weather.blend >= 1) {
+        weather.kind = weather.next;
+        weather.next = null;
+        weather.blend = 0;
+        weather.changeAt = distance + this.getWeatherSpell();
+      }
+    }
+  }
+
+  private createStageRun(stage: StageDefinition): StageRun {
+    return {
+      id: stage.id,
+      name: stage.name,
+      theme: stage.theme,
+      length: stage.length,
+      progress: 0,
+      nextPlacement: 0,
+      seeds: 0,
+      seedTarget: stage.stars.seeds,
+      damage: 0,
+      finished: false
+    };
+  }
+
+  // Every authored object of a stage in the order it reaches the road
+  private getStagePlacements(stage: StageDefinition): StagePlacement[] {
+    const placements: StagePlacement[] = [
+      ...stage.traffic.map(car => ({
+        at: car.at,
+        lane: car.lane,
+        kind: 'enemy' as const,
+        archetype: car.archetype ?? 'car',
+        targetLane: car.targetLane
+      })),
+      ...stage.seeds.flatMap(line =>
+        Array.from({ length: line.count ?? 1 }, (_, i) => ({
+          at: line.at + i * (line.spacing ?? DEFAULT_SEED_SPACING),
+          lane: line.lane,
+          kind: 'seed' as const
+        }))
+      ),
+      ...(stage.powerUps ?? []).map(powerUp => ({
+        at: powerUp.at,
+        lane: powerUp.lane,
+        kind: 'powerUp' as const,
+        type: PowerUpType[powerUp.type]
+      })),
+      ...(stage.hazards ?? []).map(hazard => ({
+        at: hazard.at,
+        lane: hazard.lane,
+        kind: 'hazard' as const,
+        hazard: hazard.kind
+      }))
+    ];
+
+    // Stable sort keeps the authored order for objects at the same spot
+    return placements
+      .filter(placement => placement.at < stage.length)
+      .sort((a, b) => a.at - b.at);
+  }
+
+  private spawnStagePlacements(): void {
+    const world = this.world;
+    const stage = world.stage;
+    if (!stage) return;
+
+    while (
+      stage.nextPlacement < this.stagePlacements.length &&
+      this.stagePlacements[stage.nextPlacement].at <= world.distance
+    ) {
+      const placement = this.stagePlacements[stage.nextPlacement++];
+      switch (placement.kind) {
+        case 'enemy':
+          // Through the traffic queue, so it lines up behind slower cars like any other
+          world.trafficQueue.push({
+            lane: placement.lane,
+            spawnAt: world.gameTime,
+            archetype: placement.archetype,
+            targetLane: placement.targetLane
+          });
+          break;
+        case 'seed':
+          this.spawnSeed(placement.lane);
+          break;
+        case 'powerUp':
+          this.placePowerUp(placement.lane, placement.type);
+          break;
+        case 'hazard':
+          world.hazards.push(this.createHazard(getHazardType(placement.hazard), placement.lane));
+          break;
+      }
+    }
+  }
+
+  // Report progress in whole percent steps, and end the run at the finish line
+  private updateStage(previousDistance: number): void {
+    const world = this.world;
+    const stage = world.stage;
+    if (!stage || world.over) return;
+
+    const percent = (distance: number) => Math.min(100, Math.floor((distance / stage.length) * 100));
+    if (percent(world.distance) !== percent(previousDistance)) {
+      stage.progress = percent(world.distance) / 100;
+      this.emitStageProgress();
+    }
+
+    if (world.distance >= stage.length) {
+      stage.finished = true;
+      this.endRun();
+    }
+  }
+
+  // Count down the time limit, reporting whole seconds, and end the run when it runs out
+  private updateClock(deltaTime: number): void {
+    const world = this.world;
+    if (world.timeLeft === null || world.over) return;
+
+    const previous = world.timeLeft;
+    world.timeLeft = Math.max(0, previous - deltaTime);
+    if (Math.ceil(world.timeLeft / 1000) !== Math.ceil(previous / 1000)) {
+      this.events.onTimeLeftChange?.(world.timeLeft);
+    }
+
+    if (world.timeLeft === 0) {
+      this.endRun();
+    }
+  }
+
+  private emitStageProgress(): void {
+    if (this.world.stage) {
+      this.events.onStageProgress?.({ ...this.world.stage });
+    }
+  }
+
+  // Stars earned: one for the finish, one for the seed target and one for keeping damage down
+  private getStageResult(): StageResult | null {
+    const stage = this.world.stage;
+    if (!stage || !this.stage) return null;
+
+    const { stars } = this.stage;
+    return {
+      id: stage.id,
+      finished: stage.finished,
+      stars: stage.finished
+        ? 1 + (stage.seeds >= stars.seeds ? 1 : 0) + (stage.damage <= stars.maxDamage ? 1 : 0)
+        : 0,
+      seeds: stage.seeds,
+      damage: stage.damage
+    };
+  }
+
+  // Start a boss encounter at each distance milestone, then run it through its phases
+  private updateScriptedEvent(deltaTime: number): void {
+    const world = this.world;
+    const event = world.scriptedEvent;
+
+    if (!event) {
+      if (world.nextEventDistance > 0 && world.distance >= world.nextEventDistance) {
+        this.startScriptedEvent();
+      }
+      return;
+    }
+
+    const definition = getScriptedEvent(event.id);
+    if (!definition) {
+      this.endScriptedEvent();
+      return;
+    }
+
+    event.elapsed += deltaTime;
+    this.updateBoss(event, definition, deltaTime);
+
+    if (event.phase === 'active') {
+      definition.tick?.(this.getScriptedEventContext(), event, deltaTime);
+    }
+
+    if (event.elapsed < event.duration) return;
+
+    if (event.phase === 'warning') {
+      this.setScriptedEventPhase(event, 'active', definition.duration);
+    } else if (event.phase === 'active') {
+      // Survived: pay out, then let the boss drive off
+      const reward = Math.round(definition.reward * this.getPowerUpModifier('scoreMultiplier'));
+      world.scoreBreakdown.bosses += reward;
+      this.events.onScriptedEventEnd?.(event.id, reward);
+      this.setScriptedEventPhase(event, 'leaving', EVENT_LEAVING_TIME);
+    } else {
+      this.endScriptedEvent();
+    }
+  }
+
+  private startScriptedEvent(): void {
+    const world = this.world;
+    const { laneCount, laneWidth, lanePositions } = this.layout;
+
+    const definitions = getScriptedEvents();
+    const weights = Object.fromEntries(definitions.map(definition => [definition.id, definition.weight]));
+    const definition = this.pickWeighted(definitions, undefined, weights);
+    if (!definition) {
+      world.nextEventDistance = 0;
+      return;
+    }
+
+    const width = laneWidth * definition.boss.width;
+    const height = Math.min(width / definition.boss.aspectRatio, this.dimensions.height * MAX_BOSS_HEIGHT);
+    const lane = this.random.nextInt(laneCount);
+    world.boss = {
+      x: lanePositions[lane] - (width / 2),
+      y: -height,
+      width,
+      height,
+      lane,
+      active: true,
+      type: 'boss',
+      event: definition.id,
+      targetLane: lane
+    };
+
+    world.scriptedEvent = {
+      id: definition.id,
+      phase: 'warning',
+      elapsed: 0,
+      duration: EVENT_WARNING_TIME,
+      weaveTimer: definition.boss.weaveInterval,
+      dropTimer: 0,
+      drops: 0
+    };
+    this.events.onScriptedEventChange?.({ ...world.scriptedEvent });
+  }
+
+  private setScriptedEventPhase(event: ScriptedEvent, phase: ScriptedEventPhase, duration: number): void {
+    event.phase = phase;
+    event.elapsed = 0;
+    event.duration = duration;
+    this.events.onScriptedEventChange?.({ ...event });
+  }
+
+  // Clear the boss away and schedule the next encounter from here
+  private endScriptedEvent(): void {
+    const world = this.world;
+    world.boss = null;
+    world.scriptedEvent = null;
+    world.nextEventDistance = world.distance + (this.difficulty.bossInterval ?? 0);
+    this.events.onScriptedEventChange?.(null);
+  }
+
+  // Drive the boss in, weave it between lanes while active, then drive it off the top
+  private updateBoss(event: ScriptedEvent, definition: ScriptedEventDefinition, deltaTime: number): void {
+    const boss = this.world.boss;
+    if (!boss) return;
+
+    const { laneCount, lanePositions } = this.layout;
+    const top = this.dimensions.height * BOSS_TOP;
+    const progress = Math.min(1, event.elapsed / event.duration);
+
+    if (event.phase === 'warning') {
+      boss.y = -boss.height + (top + boss.height) * progress;
+    } else if (event.phase === 'leaving') {
+      boss.y = top - (top + boss.height) * progress;
+    } else {
+      boss.y = top;
+      event.weaveTimer -= deltaTime;
+      if (event.weaveTimer <= 0) {
+        boss.targetLane = (boss.lane + 1 + this.random.nextInt(laneCount - 1)) % laneCount;
+        event.weaveTimer = definition.boss.weaveInterval;
+      }
+    }
+
+    // Ease across lanes the same way the player does
+    const targetX = lanePositions[boss.targetLane] - (boss.width / 2);
+    boss.x += (targetX - boss.x) * Math.min(1, LANE_CHANGE_RATE * deltaTime);
+    if (Math.abs(targetX - boss.x) < 2) {
+      boss.x = targetX;
+      boss.lane = boss.targetLane;
+    }
+  }
+
+  private getScriptedEventContext(): ScriptedEventContext {
+    return {
+      world: this.world,
+      layout: this.layout,
+      dropEnemy: archetype => this.dropEnemy(archetype),
+      dropHazard: kind => this.dropHazard(kind)
+    };
+  }
+
+  // Normal spawns taken over by the running scripted event, or all of them on a campaign stage
+  private getSuspendedSpawns(): Set<SpawnChannel> {
+    if (this.world.stage) return new Set(SPAWN_CHANNELS);
+
+    const event = this.world.scriptedEvent;
+    return new Set(event ? getScriptedEvent(event.id)?.suspends : []);
+  }
+
+  // An enemy falling off the back of the boss, kept only if the player still has a way through
+  private dropEnemy(archetype: string): boolean {
+    const world = this.world;
+    const boss = world.boss;
+    if (!boss || this.getClosedLanes().has(boss.lane)) return false;
+
+    const enemy = this.createEnemy({ lane: boss.lane, spawnAt: world.gameTime, archetype });
+    enemy.y = boss.y + boss.height - enemy.height;
+
+    const crowded = world.enemies.some(other =>
+      this.sharesLane(enemy, other) &&
+      other.y < enemy.y + enemy.height + FOLLOW_GAP &&
+      other.y + other.height + FOLLOW_GAP > enemy.y
+    );
+    if (crowded || !this.isTrafficSurvivable([], [], [enemy])) return false;
+
+    world.enemies.push(enemy);
+    return true;
+  }
+
+  private dropHazard(kind: HazardKind): boolean {
+    const boss = this.world.boss;
+    if (!boss) return false;
+
+    const type = getHazardType(kind);
+    const hazard = this.createHazard(type, boss.lane);
+    hazard.y = boss.y + boss.height - hazard.height;
+    if (type.blocksLane && !this.isTrafficSurvivable([], [hazard])) return false;
+
+    this.world.hazards.push(hazard);
+    return true;
+  }
+
+  private getPowerUpContext(): PowerUpContext {
+    return { world: this.world, events: this.events };
+  }
+
+  // Tick active power-ups and expire the ones that have run out
+  private updatePowerUps(deltaTime: number): void {
+    const context = this.getPowerUpContext();
+
+    this.world.activePowerUps.forEach(active => {
+      getPowerUp(active.type)?.tick?.(context, deltaTime);
+      active.remaining -= deltaTime;
+    });
+
+    this.world.activePowerUps
+      .filter(active => active.remaining <= 0)
+      .forEach(active => this.endPowerUp(active.type));
+  }
+
+  private endPowerUp(type: PowerUpType): void {
+    this.world.activePowerUps = this.world.activePowerUps.filter(active => active.type !== type);
+    getPowerUp(type)?.expire?.(this.getPowerUpContext());
+    this.events.onPowerUpEnd?.(type);
+    this.emitActivePowerUps();
+  }
+
+  // Use up one stack of a power-up that protects the player once per stack
+  private consumePowerUp(type: PowerUpType): void {
+    const active = this.world.activePowerUps.find(existing => existing.type === type);
+    if (!active) return;
+
+    active.stacks--;
+    if (active.stacks > 0) {
+      this.emitActivePowerUps();
+    } else {
+      this.endPowerUp(type);
+    }
+  }
+
+  private emitActivePowerUps(): void {
+    this.events.onActivePowerUpsChange?.(this.world.activePowerUps.map(active => ({ ...active })));
+  }
+
+  // Active power-up that shields the player from a hit; smashing through beats passing through
+  private getProtectingPowerUp(): PowerUpDefinition | undefined {
+    const protectors = this.world.activePowerUps
+      .map(active => getPowerUp(active.type))
+      .filter(definition => definition?.protection);
+
+    return protectors.find(definition => definition.protection === 'destroy') ?? protectors[0];
+  }
+
+  private activatePowerUp(type: PowerUpType): void {
+    const definition = getPowerUp(type);
+    if (!definition) return;
+
+    const context = this.getPowerUpContext();
+
+    // Instant effects either apply now or turn into points when capped
+    if (definition.duration === 0) {
+      if (definition.isCapped?.(context)) {
+        this.convertPowerUp(definition, 1);
+      } else {
+        definition.activate?.(context);
+        this.events.onPowerUpStart?.(type, 0);
+      }
+      return;
+    }
+
+    const active = this.world.activePowerUps.find(existing => existing.type === type);
+    if (!active) {
+      definition.activate?.(context);
+      this.world.activePowerUps.push({ type, remaining: definition.duration, duration: definition.duration, stacks: 1 });
+      this.events.onPowerUpStart?.(type, definition.duration);
+      this.emitActivePowerUps();
+      return;
+    }
+
+    // Picking up an effect that is already running follows its stacking policy
+    switch (definition.stacking ?? 'refresh') {
+      case 'refresh':
+        active.remaining = definition.duration;
+        break;
+
+      case 'extend': {
+        const maxDuration = definition.maxDuration ?? definition.duration;
+        const extended = active.remaining + definition.duration;
+        active.remaining = Math.min(extended, maxDuration);
+        if (extended > maxDuration) {
+          this.convertPowerUp(definition, (extended - maxDuration) / definition.duration);
+        }
+        break;
+      }
+
+      case 'stack':
+        active.remaining = definition.duration;
+        if (active.stacks < (definition.maxStacks ?? 1)) {
+          active.stacks++;
+        } else {
+          this.convertPowerUp(definition, 1);
+        }
+        break;
+    }
+
+    active.duration = active.remaining;
+    this.events.onPowerUpStart?.(type, active.remaining);
+    this.emitActivePowerUps();
+  }
+
+  // Award points for the part of a pickup that a capped effect couldn't use
+  private convertPowerUp(definition: PowerUpDefinition, fraction: number): void {
+    const points = Math.round(
+      (definition.overflowPoints ?? 0) * fraction * this.getPowerUpModifier('scoreMultiplier')
+    );
+    if (points <= 0) return;
+
+    this.world.scoreBreakdown.powerUps += points;
+    this.events.onPowerUpOverflow?.(definition.type, points);
+  }
+}
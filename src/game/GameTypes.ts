@@ -0,0 +1,292 @@
+// Shared game types used by the simulation, renderer and engine
+
+export enum GameState {
+  MODE_SELECTION, // New state for mode selection
+  USERNAME_CREATION, // New state for username creation
+  START_SCREEN,
+  GAMEPLAY,
+  PAUSED,
+  GAME_OVER
+}
+
+export enum PowerUpType {
+  SLOW_SPEED,
+  SHIELD,
+  EXTRA_LIFE,
+  MAGNET,
+  SCORE_DOUBLER,
+  PHASE,
+  NITRO
+}
+
+export enum GameMode {
+  ONLINE = 'online',
+  ONCHAIN = 'onchain',
+  DAILY = 'daily', // Shared seed per UTC day, one ranked attempt
+  TIME_ATTACK = 'time-attack', // 90 seconds on the clock, crashes cost time instead of lives
+  HARDCORE = 'hardcore', // A single life and no extra lives
+  PRACTICE = 'practice', // Crashes are free and the road can be tuned live; scores are never kept
+  NONE = 'none'
+}
+
+// Player inputs; PAUSE and RESUME are only recorded for replays
+export enum InputAction {
+  MOVE_LEFT,
+  MOVE_RIGHT,
+  PAUSE,
+  RESUME
+}
+
+// Interface for user profile
+export interface UserProfile {
+  username: string;
+  gameMode: GameMode;
+  // Add more user stats here in the future
+}
+
+// Size of the play field in canvas units
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+// Road geometry derived from the play field dimensions
+export interface RoadLayout {
+  laneCount: number;
+  roadWidth: number;
+  roadCenterX: number;
+  laneWidth: number;
+  lanePositions: number[]; // Center x of each lane
+}
+
+// Plain data for everything that moves down the road
+export interface GameObject {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  lane: number;
+  active: boolean;
+  type?: string;
+  powerUpType?: PowerUpType;
+  imageIndex?: number; // Enemy car sprite index
+  passed?: boolean; // Enemy has already gone by the player
+  alongside?: boolean; // Enemy was level with the player in a neighbouring lane
+  nearMiss?: boolean; // A near miss was already awarded for this enemy
+  phased?: boolean; // The player passed through this enemy
+}
+
+// Sideways move of a lane-changing enemy
+export interface EnemyLaneChange {
+  from: number;
+  to: number;
+  elapsed: number; // ms since the enemy entered the road
+}
+
+export interface EnemyCar extends GameObject {
+  archetype: string; // Id of its EnemyArchetype
+  speed: number; // Multiplier on the road speed
+  laneChange?: EnemyLaneChange; // Pending or in-progress lane change
+}
+
+export type HazardKind = 'oil' | 'pothole' | 'construction';
+
+export interface Hazard extends GameObject {
+  kind: HazardKind;
+  struck?: boolean; // Already hit the player
+}
+
+// An oil slick's hold on the next lane change: ignore it or send the car a random way
+export interface OilSlick {
+  effect: 'lock' | 'random';
+  remaining: number; // ms before it wears off unused
+}
+
+// Large scripted vehicle that holds the top of the road during a boss encounter
+export interface Boss extends GameObject {
+  event: string; // Id of the ScriptedEventDefinition that brought it in
+  targetLane: number; // Lane it is weaving towards
+}
+
+// Normal spawn timers a scripted event can hold back while it runs
+export type SpawnChannel = 'traffic' | 'seeds' | 'powerUps' | 'hazards';
+
+// warning: banner up and the boss driving in; active: survive it; leaving: the boss drives off
+export type ScriptedEventPhase = 'warning' | 'active' | 'leaving';
+
+// A scripted event in progress
+export interface ScriptedEvent {
+  id: string;
+  phase: ScriptedEventPhase;
+  elapsed: number; // ms into the current phase
+  duration: number; // ms the current phase lasts
+  weaveTimer: number; // ms until the boss picks a new lane
+  dropTimer: number; // ms until the boss drops its next obstacle
+  drops: number; // Obstacles dropped so far
+}
+
+export interface PlayerCar extends GameObject {
+  lives: number;
+  slick: OilSlick | null;
+  lanePosition: number;
+  targetLane: number;
+  transitioning: boolean;
+  slide: number; // px the current lane change carries the car past its target lane
+}
+
+// New interface for explosion particles
+export interface ExplosionParticle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  color: string;
+  alpha: number;
+  lifetime: number;
+  currentLife: number;
+}
+
+// New interface for road marking
+export interface RoadMarking {
+  y: number;
+  active: boolean;
+}
+
+// New interface for decorative elements
+export interface Decoration {
+  x: number;
+  y: number;
+  type: 'tree' | 'bush';
+  size: number;
+  active: boolean;
+}
+
+// Enemy of a planned traffic wave waiting to enter the road
+export interface QueuedSpawn {
+  lane: number;
+  spawnAt: number; // Game time (ms)
+  archetype: string;
+  targetLane?: number; // Where a lane changer moves to
+}
+
+// Points earned from each source over a run
+export interface ScoreBreakdown {
+  distance: number;
+  survival: number;
+  seeds: number;
+  nearMiss: number;
+  nearMissCount: number;
+  powerUps: number; // Pickups converted to points because their effect was capped
+  bosses: number; // Rewards for surviving boss encounters
+  bestStreak: number; // Longest run of seeds collected without a miss or crash
+}
+
+// A close shave with an enemy: passing it in the next lane, or leaving its lane just in time
+export interface NearMiss {
+  kind: 'pass' | 'dodge';
+  bonus: number;
+}
+
+// A timed power-up currently affecting the run
+export interface ActivePowerUp {
+  type: PowerUpType;
+  remaining: number; // ms
+  duration: number; // ms the timer last started from
+  stacks: number; // Intensity for stacking power-ups, charges for ones consumed on hit
+}
+
+export type WeatherKind = 'clear' | 'rain' | 'fog' | 'snow';
+
+// Weather on the road, and any change under way
+export interface WeatherState {
+  kind: WeatherKind; // Settled weather, or the one being left during a change
+  next: WeatherKind | null; // Weather moving in
+  blend: number; // 0-1 through the change
+  changeAt: number; // Metres at which the next change starts
+}
+
+// Look of a campaign stage
+export type StageTheme = 'day' | 'dusk' | 'night';
+
+// Progress through a campaign stage
+export interface StageRun {
+  id: string;
+  name: string;
+  theme: StageTheme;
+  length: number; // Metres to the finish line
+  progress: number; // Fraction of the stage covered, in whole percent steps
+  nextPlacement: number; // Index of the next authored object to put on the road
+  seeds: number; // Seeds collected
+  seedTarget: number; // Seeds needed for the seed star
+  damage: number; // Crashes taken
+  finished: boolean; // Crossed the finish line
+}
+
+// How a campaign stage went
+export interface StageResult {
+  id: string;
+  finished: boolean;
+  stars: number; // 0 when the stage wasn't finished, otherwise 1-3
+  seeds: number;
+  damage: number;
+}
+
+// Outcome of a finished run
+export interface RunResult {
+  score: number;
+  seed: number;
+  difficulty: string; // Id of the difficulty curve the run was played on
+  rules: string; // Id of the rule set the run was played under
+  stage?: StageResult; // Only for campaign stages
+}
+
+// Complete state of a run, advanced by GameSimulation.step()
+export interface WorldState {
+  tick: number;
+  gameTime: number;
+  distance: number; // Metres travelled
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  seedStreak: number; // Seeds collected since the last miss or crash
+  survivalTimer: number; // ms since the last crash or survival bonus
+  gameSpeed: number;
+  timeLeft: number | null; // ms on the clock in timed runs
+  over: boolean;
+
+  player: PlayerCar;
+  enemies: EnemyCar[];
+  trafficQueue: QueuedSpawn[];
+  seeds: GameObject[];
+  powerUps: GameObject[];
+  hazards: Hazard[];
+  roadMarkings: RoadMarking[];
+  decorations: Decoration[];
+  explosions: ExplosionParticle[];
+  boss: Boss | null;
+
+  // Campaign stage being played; null in endless runs
+  stage: StageRun | null;
+
+  // Changing weather; null when the run has none
+  weather: WeatherState | null;
+
+  // Boss encounter under way, and the distance the next one is due at
+  scriptedEvent: ScriptedEvent | null;
+  nextEventDistance: number; // Metres; 0 when the curve has no bosses
+
+  // Spawn and difficulty timers (ms)
+  enemySpawnTimer: number;
+  enemySpawnInterval: number;
+  seedSpawnTimer: number;
+  seedSpawnInterval: number;
+  powerUpSpawnTimer: number;
+  powerUpSpawnInterval: number;
+  hazardSpawnTimer: number;
+  hazardSpawnInterval: number; // 0 when the curve has no hazards
+  decorationSpawnTimer: number;
+  roadMarkingTimer: number;
+
+  // Timed power-ups in effect
+  activePowerUps: ActivePowerUp[];
+}
@@ -0,0 +1,35 @@
+// Road hazards that aren't cars: oil slicks, potholes and construction zones
+
+import { HazardKind } from './GameTypes';
+
+export interface HazardType {
+  id: HazardKind;
+  width: number; // Fraction of the lane width
+  length: number; // Lane widths of road covered
+  blocksLane?: boolean; // Closes the lane like a car would
+}
+
+export const HAZARD_TYPES: HazardType[] = [
+  { id: 'oil', width: 0.7, length: 0.6 },
+  { id: 'pothole', width: 0.45, length: 0.35 },
+  { id: 'construction', width: 1, length: 6, blocksLane: true }
+];
+
+// Used when a difficulty curve doesn't weight the hazards itself
+export const DEFAULT_HAZARD_WEIGHTS: Record<string, number> = {
+  oil: 1,
+  pothole: 1
+};
+
+// How long an oil slick keeps its hold on the next lane change
+export const OIL_SLICK_DURATION = 3000; // ms
+
+// Seeds' worth of points a pothole knocks off the seed total
+export const POTHOLE_SEED_COST = 3;
+
+// Lane widths of warning cones drawn ahead of a construction zone
+export const CONSTRUCTION_WARNING_LENGTH = 2;
+
+export function getHazardType(id: HazardKind): HazardType {
+  return HAZARD_TYPES.find(type => type.id === id) ?? HAZARD_TYPES[0];
+}
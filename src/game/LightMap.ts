@@ -0,0 +1,147 @@
+// Night lighting: darkness with holes cut out wherever a light reaches, laid over the finished scene.
+// Drawn at reduced resolution from pre-rendered light shapes, so a frame costs a fill and a few
+// image copies whatever the number of lights
+
+import { Dimensions } from './GameTypes';
+
+// Light map pixels per sim pixel; the light is soft, so upscaling it hides nothing
+const LIGHT_MAP_SCALE = 0.5;
+
+// Size of the pre-rendered light shapes, scaled to each light when drawn
+const CONE_SPRITE = { width: 64, height: 128 };
+const GLOW_SPRITE = 64;
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+// Beam widening away from a lamp at the bottom middle, brightest near the lamp and soft at the sides
+function paintCone(): HTMLCanvasElement {
+  const { width, height } = CONE_SPRITE;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const falloff = ctx.createRadialGradient(width / 2, height, 0, width / 2, height, height);
+  falloff.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  falloff.addColorStop(0.6, 'rgba(255, 255, 255, 0.6)');
+  falloff.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.fillStyle = falloff;
+  ctx.beginPath();
+  ctx.moveTo(width * 0.4, height);
+  ctx.lineTo(0, 0);
+  ctx.lineTo(width, 0);
+  ctx.lineTo(width * 0.6, height);
+  ctx.closePath();
+  ctx.fill();
+
+  // Fade the edges of the beam
+  const edges = ctx.createLinearGradient(0, 0, width, 0);
+  edges.addColorStop(0, 'rgba(255, 255, 255, 0)');
+  edges.addColorStop(0.3, 'rgba(255, 255, 255, 1)');
+  edges.addColorStop(0.7, 'rgba(255, 255, 255, 1)');
+  edges.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.fillStyle = edges;
+  ctx.fillRect(0, 0, width, height);
+
+  return canvas;
+}
+
+// Round glow in a colour given as 'r, g, b'
+function paintGlow(rgb: string): HTMLCanvasElement {
+  const size = GLOW_SPRITE;
+  const { canvas, ctx } = createCanvas(size, size);
+
+  const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+  gradient.addColorStop(0, `rgba(${rgb}, 1)`);
+  gradient.addColorStop(0.4, `rgba(${rgb}, 0.5)`);
+  gradient.addColorStop(1, `rgba(${rgb}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+
+  return canvas;
+}
+
+export class LightMap {
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+
+  // Light shapes, painted on first use
+  private cone: HTMLCanvasElement | null = null;
+  private glows: Map<string, HTMLCanvasElement> = new Map();
+
+  // Start a frame: all dark, ready for lights to be cut out of it
+  public begin(dimensions: Dimensions, darkness: string): void {
+    const width = Math.ceil(dimensions.width * LIGHT_MAP_SCALE);
+    const height = Math.ceil(dimensions.height * LIGHT_MAP_SCALE);
+    if (!this.canvas || this.canvas.width !== width || this.canvas.height !== height) {
+      const layer = createCanvas(width, height);
+      this.canvas = layer.canvas;
+      this.ctx = layer.ctx;
+    }
+
+    const ctx = this.ctx!;
+    ctx.setTransform(LIGHT_MAP_SCALE, 0, 0, LIGHT_MAP_SCALE, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+    ctx.fillStyle = darkness;
+    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
+
+    // Everything drawn from here on takes darkness away
+    ctx.globalCompositeOperation = 'destination-out';
+  }
+
+  // Headlight beam pointing up the road from (x, y), `width` across at its far end
+  public addCone(x: number, y: number, width: number, reach: number, strength: number): void {
+    if (!this.ctx) return;
+
+    if (!this.cone) {
+      this.cone = paintCone();
+    }
+    this.ctx.globalAlpha = strength;
+    this.ctx.drawImage(this.cone, x - width / 2, y - reach, width, reach);
+  }
+
+  // Pool of light around (x, y)
+  public addGlow(x: number, y: number, radius: number, strength: number): void {
+    if (!this.ctx) return;
+
+    this.ctx.globalAlpha = strength;
+    this.ctx.drawImage(this.getGlow('255, 255, 255'), x - radius, y - radius, radius * 2, radius * 2);
+  }
+
+  // Lay the darkness over the scene
+  public draw(ctx: CanvasRenderingContext2D, dimensions: Dimensions): void {
+    if (this.canvas) {
+      ctx.drawImage(this.canvas, 0, 0, dimensions.width, dimensions.height);
+    }
+  }
+
+  // Coloured light added on top of the scene, such as tail lights, in a colour given as 'r, g, b'
+  public drawColoredGlow(
+    ctx: CanvasRenderingContext2D,
+    rgb: string,
+    x: number,
+    y: number,
+    radius: number,
+    strength: number
+  ): void {
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.globalAlpha = strength;
+    ctx.drawImage(this.getGlow(rgb), x - radius, y - radius, radius * 2, radius * 2);
+    ctx.restore();
+  }
+
+  private getGlow(rgb: string): HTMLCanvasElement {
+    let glow = this.glows.get(rgb);
+    if (!glow) {
+      glow = paintGlow(rgb);
+      this.glows.set(rgb, glow);
+    }
+    return glow;
+  }
+}
@@ -0,0 +1,368 @@
+// Power-up registry: each type declares how it spawns, what it does and how it looks
+
+import { PlayerCar, PowerUpType, WorldState } from './GameTypes';
+import type { SimulationEvents } from './GameSimulation';
+
+const MAX_LIVES = 5;
+
+// Magnet reach ahead of the player and how fast it drags seeds sideways
+const MAGNET_RANGE = 350; // px
+const MAGNET_PULL = 0.4; // px per ms
+
+// What a power-up's hooks can touch while it runs
+export interface PowerUpContext {
+  world: WorldState;
+  events: SimulationEvents;
+}
+
+// Short synthesised cue: notes played one after another
+export interface PowerUpTone {
+  notes: number[]; // Hz
+  wave: 'sine' | 'square' | 'sawtooth' | 'triangle';
+}
+
+// Sound played by the UI when a power-up is picked up
+export type PowerUpSound = 'pickup' | 'slowTimer' | PowerUpTone;
+
+// How an enemy hit is handled while the power-up is active
+export type PowerUpProtection = 'destroy' | 'pass';
+
+// What picking up an effect that is already running does:
+// refresh restarts the timer, extend adds to it up to maxDuration,
+// stack raises the intensity (or charges) up to maxStacks and restarts the timer
+export type PowerUpStacking = 'refresh' | 'extend' | 'stack';
+
+export interface PowerUpHud {
+  name: string; // Shown in the how-to-play guide
+  help: string;
+  label: string; // Toast title on pickup
+  description?: string; // Toast body on pickup
+  endLabel?: string; // Toast title when the effect wears off
+  color: string; // Tint for the HUD timer and toast icon
+  sound: PowerUpSound;
+}
+
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  spawnWeight: number; // Relative chance of being picked when a power-up spawns
+  duration: number; // ms; 0 for instant effects
+  color: string; // Fill of the pickup on the road
+  stacking?: PowerUpStacking; // Defaults to refresh
+  maxDuration?: number; // ms cap for extend
+  maxStacks?: number; // Cap for stack
+  overflowPoints?: number; // Awarded instead when the pickup is capped
+  isCapped?: (context: PowerUpContext) => boolean; // Whether an instant effect can't apply
+  // Multipliers applied once per stack while active
+  speedMultiplier?: number; // Road and traffic speed
+  scoreMultiplier?: number; // Every point earned
+  distanceMultiplier?: number; // Distance points
+  protection?: PowerUpProtection;
+  consumeOnHit?: boolean; // Uses up a stack each time it protects the player
+  playerAlpha?: number; // Opacity of the player car while active
+  // Draw the icon centred on (x, y) using the current fill and stroke style
+  drawIcon: (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => void;
+  // Draw around the player car while active, underneath it
+  drawEffect?: (ctx: CanvasRenderingContext2D, player: PlayerCar) => void;
+  activate?: (context: PowerUpContext) => void;
+  tick?: (context: PowerUpContext, deltaTime: number) => void;
+  expire?: (context: PowerUpContext) => void;
+  hud: PowerUpHud;
+}
+
+const registry = new Map<PowerUpType, PowerUpDefinition>();
+
+// Add or replace a power-up type; spawn order follows registration order
+export function registerPowerUp(definition: PowerUpDefinition): void {
+  registry.set(definition.type, definition);
+}
+
+export function getPowerUp(type: PowerUpType): PowerUpDefinition | undefined {
+  return registry.get(type);
+}
+
+export function getPowerUps(): PowerUpDefinition[] {
+  return Array.from(registry.values());
+}
+
+// Weighted pick from a roll in [0, 1), leaving out the excluded types
+export function pickPowerUp(roll: number, excluded: PowerUpType[] = []): PowerUpDefinition | undefined {
+  const candidates = getPowerUps().filter(
+    definition => definition.spawnWeight > 0 && !excluded.includes(definition.type)
+  );
+  const total = candidates.reduce((sum, definition) => sum + definition.spawnWeight, 0);
+
+  let remaining = roll * total;
+  for (const definition of candidates) {
+    remaining -= definition.spawnWeight;
+    if (remaining < 0) return definition;
+  }
+
+  return candidates[candidates.length - 1];
+}
+
+registerPowerUp({
+  type: PowerUpType.SLOW_SPEED,
+  spawnWeight: 1,
+  duration: 5000,
+  color: '#9b87f5', // Purple
+  stacking: 'extend',
+  maxDuration: 10000,
+  overflowPoints: 50,
+  speedMultiplier: 0.5,
+  drawIcon: (ctx, x, y, size) => {
+    // Clock face
+    ctx.beginPath();
+    ctx.arc(x, y, size, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Clock hands
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x, y - size * 0.7);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + size * 0.5, y + size * 0.3);
+    ctx.stroke();
+  },
+  hud: {
+    name: 'Slow Mode',
+    help: 'Slows down all traffic for 5 seconds',
+    label: 'SLOW MODE ACTIVATED',
+    description: 'Traffic speed reduced',
+    endLabel: 'SLOW MODE ENDED',
+    color: '#a170fc',
+    sound: 'slowTimer'
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.SHIELD,
+  spawnWeight: 1,
+  duration: 3000,
+  color: '#4cc9f0', // Cyan
+  stacking: 'extend',
+  maxDuration: 6000,
+  overflowPoints: 50,
+  drawIcon: (ctx, x, y, size) => {
+    ctx.beginPath();
+    ctx.moveTo(x, y - size);
+    ctx.quadraticCurveTo(x + size * 1.2, y - size * 0.6, x, y + size);
+    ctx.quadraticCurveTo(x - size * 1.2, y - size * 0.6, x, y - size);
+    ctx.stroke();
+  },
+  protection: 'destroy',
+  drawEffect: (ctx, player) => {
+    ctx.beginPath();
+    ctx.fillStyle = 'rgba(100, 210, 255, 0.3)';
+    ctx.ellipse(
+      player.x + player.width / 2,
+      player.y + player.height / 2,
+      player.width * 0.8,
+      player.height * 0.8,
+      0, 0, Math.PI * 2
+    );
+    ctx.fill();
+
+    // Shield border
+    ctx.strokeStyle = 'rgba(100, 210, 255, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  },
+  hud: {
+    name: 'Shield',
+    help: 'Makes you invulnerable for 3 seconds',
+    label: 'SHIELD ACTIVATED',
+    description: 'Invulnerable for 3s',
+    endLabel: 'SHIELD DEACTIVATED',
+    color: '#64d2ff',
+    sound: 'pickup'
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.EXTRA_LIFE,
+  spawnWeight: 1,
+  duration: 0,
+  color: '#ff5e5e', // Red
+  overflowPoints: 100,
+  isCapped: ({ world }) => world.player.lives >= MAX_LIVES,
+  drawIcon: (ctx, x, y, size) => {
+    const heartSize = size * 0.8;
+    ctx.beginPath();
+    ctx.moveTo(x, y + heartSize * 0.3);
+    ctx.bezierCurveTo(x, y, x - heartSize, y, x - heartSize, y - heartSize * 0.5);
+    ctx.bezierCurveTo(x - heartSize, y - heartSize * 1.1, x, y - heartSize * 1.1, x, y - heartSize * 0.6);
+    ctx.bezierCurveTo(x, y - heartSize * 1.1, x + heartSize, y - heartSize * 1.1, x + heartSize, y - heartSize * 0.5);
+    ctx.bezierCurveTo(x + heartSize, y, x, y, x, y + heartSize * 0.3);
+    ctx.fill();
+  },
+  activate: ({ world, events }) => {
+    const player = world.player;
+    player.lives++;
+    events.onLivesChange?.(player.lives);
+  },
+  hud: {
+    name: 'Extra Life',
+    help: 'Gives you an additional life, or 100 points when you already have 5',
+    label: 'EXTRA LIFE',
+    color: '#ef4444',
+    sound: 'pickup'
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.MAGNET,
+  spawnWeight: 1,
+  duration: 6000,
+  color: '#f59e0b', // Amber
+  stacking: 'extend',
+  maxDuration: 12000,
+  overflowPoints: 30,
+  drawIcon: (ctx, x, y, size) => {
+    // Horseshoe magnet
+    ctx.beginPath();
+    ctx.arc(x, y, size * 0.8, Math.PI, 0, true);
+    ctx.moveTo(x - size * 0.8, y);
+    ctx.lineTo(x - size * 0.8, y - size * 0.8);
+    ctx.moveTo(x + size * 0.8, y);
+    ctx.lineTo(x + size * 0.8, y - size * 0.8);
+    ctx.stroke();
+  },
+  tick: ({ world }, deltaTime) => {
+    const player = world.player;
+    const centerX = player.x + player.width / 2;
+
+    // Drag seeds coming up in this or a neighbouring lane towards the car
+    world.seeds.forEach(seed => {
+      if (Math.abs(seed.lane - player.lane) > 1) return;
+      if (seed.y + seed.height < player.y - MAGNET_RANGE || seed.y > player.y + player.height) return;
+
+      const offset = centerX - (seed.x + seed.width / 2);
+      const pull = Math.min(Math.abs(offset), MAGNET_PULL * deltaTime);
+      seed.x += Math.sign(offset) * pull;
+    });
+  },
+  drawEffect: (ctx, player) => {
+    ctx.strokeStyle = 'rgba(245, 158, 11, 0.5)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath();
+    ctx.arc(player.x + player.width / 2, player.y + player.height / 2, player.width * 1.2, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  },
+  hud: {
+    name: 'Seed Magnet',
+    help: 'Pulls seeds in from the neighbouring lanes for 6 seconds',
+    label: 'SEED MAGNET',
+    description: 'Seeds are drawn to your car',
+    endLabel: 'MAGNET ENDED',
+    color: '#f59e0b',
+    sound: { notes: [440, 660, 880], wave: 'triangle' }
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.SCORE_DOUBLER,
+  spawnWeight: 1,
+  duration: 8000,
+  color: '#22c55e', // Green
+  stacking: 'stack',
+  maxStacks: 2,
+  overflowPoints: 50,
+  scoreMultiplier: 2,
+  drawIcon: (ctx, x, y, size) => {
+    ctx.font = `bold ${Math.round(size * 1.5)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('2x', x, y);
+  },
+  hud: {
+    name: 'Score Doubler',
+    help: 'Doubles every point you earn for 8 seconds; a second one makes it x4',
+    label: '2X SCORE',
+    description: 'All points doubled',
+    endLabel: '2X SCORE ENDED',
+    color: '#22c55e',
+    sound: { notes: [523, 784], wave: 'square' }
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.PHASE,
+  spawnWeight: 1,
+  duration: 8000,
+  color: '#94a3b8', // Slate
+  stacking: 'stack',
+  maxStacks: 3,
+  overflowPoints: 50,
+  protection: 'pass',
+  consumeOnHit: true,
+  playerAlpha: 0.5,
+  drawIcon: (ctx, x, y, size) => {
+    // Car outline with a dashed body
+    ctx.setLineDash([size * 0.3, size * 0.25]);
+    ctx.strokeRect(x - size * 0.55, y - size, size * 1.1, size * 2);
+    ctx.setLineDash([]);
+  },
+  hud: {
+    name: 'Phase',
+    help: 'Lets you drive straight through the next car you hit; holds up to 3 charges',
+    label: 'PHASE READY',
+    description: 'Pass through one car',
+    endLabel: 'PHASE ENDED',
+    color: '#cbd5e1',
+    sound: { notes: [880, 587, 392], wave: 'sine' }
+  }
+});
+
+registerPowerUp({
+  type: PowerUpType.NITRO,
+  spawnWeight: 1,
+  duration: 3000,
+  color: '#f97316', // Orange
+  stacking: 'extend',
+  maxDuration: 4500,
+  overflowPoints: 50,
+  speedMultiplier: 1.5,
+  distanceMultiplier: 2,
+  protection: 'destroy',
+  drawIcon: (ctx, x, y, size) => {
+    // Lightning bolt
+    ctx.beginPath();
+    ctx.moveTo(x + size * 0.3, y - size);
+    ctx.lineTo(x - size * 0.5, y + size * 0.15);
+    ctx.lineTo(x, y + size * 0.15);
+    ctx.lineTo(x - size * 0.3, y + size);
+    ctx.lineTo(x + size * 0.5, y - size * 0.15);
+    ctx.lineTo(x, y - size * 0.15);
+    ctx.closePath();
+    ctx.fill();
+  },
+  drawEffect: (ctx, player) => {
+    // Exhaust flame behind the car
+    const centerX = player.x + player.width / 2;
+    const rear = player.y + player.height;
+    const gradient = ctx.createLinearGradient(0, rear, 0, rear + player.height * 0.6);
+    gradient.addColorStop(0, 'rgba(255, 200, 80, 0.9)');
+    gradient.addColorStop(1, 'rgba(249, 115, 22, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.moveTo(centerX - player.width * 0.3, rear - 4);
+    ctx.lineTo(centerX, rear + player.height * 0.6);
+    ctx.lineTo(centerX + player.width * 0.3, rear - 4);
+    ctx.closePath();
+    ctx.fill();
+  },
+  hud: {
+    name: 'Nitro',
+    help: 'A 3 second burst of speed that earns double distance points and smashes through traffic',
+    label: 'NITRO!',
+    description: 'Faster, invulnerable, double distance points',
+    endLabel: 'NITRO ENDED',
+    color: '#f97316',
+    sound: { notes: [220, 330, 440, 660], wave: 'sawtooth' }
+  }
+});
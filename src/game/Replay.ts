@@ -0,0 +1,189 @@
+// Input recording and replay files
+
+import { Dimensions, InputAction } from './GameTypes';
+import { DifficultyCurve, parseDifficultyCurve } from './DifficultyCurve';
+import { StageDefinition, parseStage } from './Stages';
+
+// Bumped whenever the simulation changes how a run plays out, so older replays are turned away
+// instead of drifting out of sync
+export const REPLAY_VERSION = 2;
+
+const INPUT_ACTIONS = Object.values(InputAction).filter(value => typeof value === 'number');
+
+// An input and the simulation tick it was received on
+export interface RecordedInput {
+  tick: number;
+  action: InputAction;
+}
+
+// Settings a run was simulated with
+export interface ReplaySetup {
+  seed: number;
+  dimensions: Dimensions;
+  enemyVariants: number;
+  laneCount: number;
+  difficulty: DifficultyCurve; // Stored in full so custom curves replay too
+  stage?: StageDefinition; // Campaign runs; also stored in full
+  rules: string; // Rule set id
+  weather: boolean; // Weather changed over the run
+}
+
+// Everything needed to reproduce a run frame-for-frame
+export interface Replay extends ReplaySetup {
+  version: number;
+  ticks: number; // Length of the run in simulation steps
+  score: number;
+  recordedAt: number;
+  inputs: RecordedInput[];
+}
+
+// Collects the inputs of a live run
+export class ReplayRecorder {
+  private setup: ReplaySetup;
+  private inputs: RecordedInput[] = [];
+
+  constructor(setup: ReplaySetup) {
+    this.setup = { ...setup, dimensions: { ...setup.dimensions } };
+  }
+
+  public record(tick: number, action: InputAction): void {
+    this.inputs.push({ tick, action });
+  }
+
+  public finish(ticks: number, score: number): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...this.setup,
+      dimensions: { ...this.setup.dimensions },
+      ticks,
+      score,
+      recordedAt: Date.now(),
+      inputs: [...this.inputs]
+    };
+  }
+}
+
+// Walks a replay's inputs in tick order
+export class ReplayInputCursor {
+  private inputs: RecordedInput[];
+  private index: number = 0;
+
+  constructor(inputs: RecordedInput[]) {
+    this.inputs = inputs;
+  }
+
+  public reset(): void {
+    this.index = 0;
+  }
+
+  // Lane changes to queue before stepping past the given tick
+  public take(tick: number): InputAction[] {
+    const actions: InputAction[] = [];
+
+    while (this.index < this.inputs.length && this.inputs[this.index].tick <= tick) {
+      const action = this.inputs[this.index].action;
+      if (action === InputAction.MOVE_LEFT || action === InputAction.MOVE_RIGHT) {
+        actions.push(action);
+      }
+      this.index++;
+    }
+
+    return actions;
+  }
+}
+
+// Serialize a replay; inputs are stored as flat [tickDelta, action] pairs
+export function encodeReplay(replay: Replay): string {
+  const inputs: number[] = [];
+  let lastTick = 0;
+  replay.inputs.forEach(input => {
+    inputs.push(input.tick - lastTick, input.action);
+    lastTick = input.tick;
+  });
+
+  return JSON.stringify({ ...replay, inputs });
+}
+
+export function decodeReplay(data: string): Replay {
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch (e) {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!parsed || parsed.version !== REPLAY_VERSION) {
+    throw new Error('Unsupported replay version');
+  }
+
+  if (
+    typeof parsed.seed !== 'number' ||
+    typeof parsed.ticks !== 'number' ||
+    typeof parsed.dimensions?.width !== 'number' ||
+    typeof parsed.dimensions?.height !== 'number' ||
+    typeof parsed.enemyVariants !== 'number' ||
+    typeof parsed.laneCount !== 'number' ||
+    !parsed.difficulty ||
+    typeof parsed.difficulty !== 'object' ||
+    typeof parsed.rules !== 'string' ||
+    typeof parsed.weather !== 'boolean' ||
+    typeof parsed.score !== 'number' ||
+    !Array.isArray(parsed.inputs) ||
+    parsed.inputs.length % 2 !== 0
+  ) {
+    throw new Error('Replay file is missing required fields');
+  }
+
+  if (!Number.isFinite(parsed.ticks) || parsed.ticks < 0) {
+    throw new Error('Replay length must be a non-negative number of ticks');
+  }
+
+  const { width, height } = parsed.dimensions;
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) {
+    throw new Error('Replay play field must have a positive width and height');
+  }
+
+  const inputs: RecordedInput[] = [];
+  let tick = 0;
+  for (let i = 0; i < parsed.inputs.length; i += 2) {
+    const delta = parsed.inputs[i];
+    const action = parsed.inputs[i + 1];
+    if (!Number.isInteger(delta) || delta < 0) {
+      throw new Error('Replay input ticks must be whole numbers in order');
+    }
+    if (!INPUT_ACTIONS.includes(action)) {
+      throw new Error('Replay input is not a known action');
+    }
+
+    tick += delta;
+    inputs.push({ tick, action });
+  }
+
+  return {
+    version: parsed.version,
+    seed: parsed.seed,
+    dimensions: { width, height },
+    enemyVariants: parsed.enemyVariants,
+    laneCount: parsed.laneCount,
+    difficulty: parseDifficultyCurve(parsed.difficulty),
+    stage: parsed.stage ? parseStage(parsed.stage) : undefined,
+    rules: parsed.rules,
+    weather: parsed.weather,
+    ticks: parsed.ticks,
+    score: parsed.score,
+    recordedAt: parsed.recordedAt ?? 0,
+    inputs
+  };
+}
+
+// Decode stored replay data, returning null if it is missing or invalid
+export function tryDecodeReplay(data: string | null): Replay | null {
+  if (!data) return null;
+
+  try {
+    return decodeReplay(data);
+  } catch (err) {
+    console.error("Error decoding replay:", err);
+    return null;
+  }
+}
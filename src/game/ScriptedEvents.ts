@@ -0,0 +1,173 @@
+// Scripted event registry: boss encounters that take over the road for a while
+
+import { Boss, HazardKind, RoadLayout, ScriptedEvent, SpawnChannel, WorldState } from './GameTypes';
+import type { PowerUpTone } from './PowerUps';
+
+// How long the warning banner shows before an encounter starts, and how long the boss takes to leave
+export const EVENT_WARNING_TIME = 3000; // ms
+export const EVENT_LEAVING_TIME = 1500; // ms
+
+// Where the boss sits while active, as a fraction of the play field height
+export const BOSS_TOP = 0.06;
+
+// What an event's hooks can touch while it runs
+export interface ScriptedEventContext {
+  world: WorldState;
+  layout: RoadLayout;
+  // Drop an obstacle from behind the boss; false when it would leave the player no way through
+  dropEnemy: (archetype: string) => boolean;
+  dropHazard: (kind: HazardKind) => boolean;
+}
+
+export interface ScriptedEventHud {
+  name: string; // Title of the timer bar
+  warning: string; // Banner text while the boss drives in
+  help: string; // Shown in the how-to-play guide
+  color: string; // Tint for the banner and timer bar
+  sound: PowerUpTone; // Played with the warning
+}
+
+export interface ScriptedEventDefinition {
+  id: string;
+  weight: number; // Relative chance of being picked at a milestone
+  duration: number; // ms to survive once active
+  reward: number; // Points for surviving to the end
+  suspends: SpawnChannel[]; // Normal spawns held back from the warning until the boss has left
+  boss: {
+    width: number; // Fraction of the lane width
+    aspectRatio: number; // Width / height
+    weaveInterval: number; // ms between lane changes
+  };
+  tick?: (context: ScriptedEventContext, event: ScriptedEvent, deltaTime: number) => void; // While active
+  // Draw the boss vehicle; gameTime drives any flashing lights
+  drawBoss: (ctx: CanvasRenderingContext2D, boss: Boss, gameTime: number) => void;
+  hud: ScriptedEventHud;
+}
+
+const registry = new Map<string, ScriptedEventDefinition>();
+
+export function registerScriptedEvent(definition: ScriptedEventDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function getScriptedEvent(id: string): ScriptedEventDefinition | undefined {
+  return registry.get(id);
+}
+
+export function getScriptedEvents(): ScriptedEventDefinition[] {
+  return Array.from(registry.values());
+}
+
+// Drop on a timer, only while the boss is settled in a lane; a refused drop is retried next tick
+function dropOnTimer(
+  context: ScriptedEventContext,
+  event: ScriptedEvent,
+  deltaTime: number,
+  interval: number,
+  drop: () => boolean
+): void {
+  const boss = context.world.boss;
+  event.dropTimer -= deltaTime;
+  if (!boss || event.dropTimer > 0) return;
+
+  const settled = Math.abs(boss.x + boss.width / 2 - context.layout.lanePositions[boss.targetLane]) < 2;
+  if (settled && drop()) {
+    event.drops++;
+    event.dropTimer = interval;
+  }
+}
+
+registerScriptedEvent({
+  id: 'big-rig',
+  weight: 1,
+  duration: 24000,
+  reward: 500,
+  suspends: ['traffic', 'hazards'],
+  boss: { width: 1, aspectRatio: 0.3, weaveInterval: 2600 },
+  tick: (context, event, deltaTime) => {
+    // Crates off the back, with an oil leak every fourth drop
+    dropOnTimer(context, event, deltaTime, 1200, () =>
+      event.drops % 4 === 3 ? context.dropHazard('oil') : context.dropEnemy('crate')
+    );
+  },
+  drawBoss: (ctx, boss) => {
+    const { x, y, width, height } = boss;
+    const cabHeight = height * 0.22;
+    const trailerTop = y + cabHeight;
+
+    // Cab up front; everything on the road is heading up the screen
+    ctx.fillStyle = '#b91c1c';
+    ctx.fillRect(x + width * 0.06, y, width * 0.88, cabHeight);
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(x + width * 0.16, y + cabHeight * 0.25, width * 0.68, cabHeight * 0.3);
+
+    // Trailer, with ribs across the roof
+    ctx.fillStyle = '#d1d5db';
+    ctx.fillRect(x, trailerTop, width, height - cabHeight);
+    ctx.strokeStyle = '#9ca3af';
+    ctx.lineWidth = 2;
+    for (let rib = trailerTop + height * 0.08; rib < y + height; rib += height * 0.08) {
+      ctx.beginPath();
+      ctx.moveTo(x + 3, rib);
+      ctx.lineTo(x + width - 3, rib);
+      ctx.stroke();
+    }
+
+    // Hazard stripe on the tail the crates fall from
+    ctx.fillStyle = '#f59e0b';
+    ctx.fillRect(x, y + height * 0.97, width, height * 0.03);
+
+    ctx.strokeStyle = '#111';
+    ctx.strokeRect(x, trailerTop, width, height - cabHeight);
+  },
+  hud: {
+    name: 'Big Rig',
+    warning: 'A big rig is shedding its load',
+    help: 'A giant truck weaves across the road dropping crates and oil. Survive it for a big bonus',
+    color: '#f59e0b',
+    sound: { notes: [98, 98, 131], wave: 'sawtooth' }
+  }
+});
+
+registerScriptedEvent({
+  id: 'police-convoy',
+  weight: 1,
+  duration: 20000,
+  reward: 400,
+  suspends: ['traffic', 'hazards'],
+  boss: { width: 0.9, aspectRatio: 0.55, weaveInterval: 1800 },
+  tick: (context, event, deltaTime) => {
+    // Cruisers peel off the convoy and drop back through traffic
+    dropOnTimer(context, event, deltaTime, 1500, () => context.dropEnemy('police'));
+  },
+  drawBoss: (ctx, boss, gameTime) => {
+    const { x, y, width, height } = boss;
+
+    // Armoured command truck in police colours
+    ctx.fillStyle = '#1e293b';
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(x, y + height * 0.35, width, height * 0.2);
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(x + width * 0.12, y + height * 0.08, width * 0.76, height * 0.15); // Windscreen
+
+    // Light bar alternating red and blue
+    const flash = Math.floor(gameTime / 200) % 2 === 0;
+    const barY = y + height * 0.26;
+    const barHeight = height * 0.08;
+    ctx.shadowBlur = 12;
+    ctx.fillStyle = flash ? '#ef4444' : '#7f1d1d';
+    ctx.shadowColor = ctx.fillStyle;
+    ctx.fillRect(x + width * 0.15, barY, width * 0.32, barHeight);
+    ctx.fillStyle = flash ? '#1e3a8a' : '#3b82f6';
+    ctx.shadowColor = ctx.fillStyle;
+    ctx.fillRect(x + width * 0.53, barY, width * 0.32, barHeight);
+  },
+  hud: {
+    name: 'Police Convoy',
+    warning: 'Police convoy approaching',
+    help: 'A police convoy sends cruisers back through the lanes. Stay clear of them for a big bonus',
+    color: '#3b82f6',
+    sound: { notes: [660, 880, 660, 880], wave: 'square' }
+  }
+});
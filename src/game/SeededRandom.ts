@@ -0,0 +1,28 @@
+// Small seedable PRNG (mulberry32) so runs can be reproduced
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Returns a float in [0, 1), like Math.random()
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Returns an integer in [0, max)
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+// Pick a fresh seed for a run that was not given one
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
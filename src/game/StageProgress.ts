@@ -0,0 +1,44 @@
+// Campaign progress: best result per stage and which stages are unlocked
+
+import { StageResult } from './GameTypes';
+import { STAGES } from './Stages';
+
+const PROGRESS_KEY = 'stageProgress';
+
+// Best run on one stage; stars and score can come from different runs
+export interface StageBest {
+  stars: number;
+  score: number;
+}
+
+export type StageProgress = Record<string, StageBest>;
+
+export function loadStageProgress(): StageProgress {
+  try {
+    const saved = localStorage.getItem(PROGRESS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (err) {
+    console.error("Error loading stage progress:", err);
+    return {};
+  }
+}
+
+// Keep the best stars and score for the stage, returning the updated progress
+export function recordStageResult(result: StageResult, score: number): StageProgress {
+  const progress = loadStageProgress();
+  const best = progress[result.id];
+
+  progress[result.id] = {
+    stars: Math.max(best?.stars ?? 0, result.stars),
+    score: Math.max(best?.score ?? 0, score)
+  };
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  return progress;
+}
+
+// The first stage is always open; each later one needs a star on the stage before it
+export function isStageUnlocked(index: number, progress: StageProgress): boolean {
+  if (index <= 0) return true;
+  const previous = STAGES[index - 1];
+  return !!previous && (progress[previous.id]?.stars ?? 0) > 0;
+}
@@ -0,0 +1,125 @@
+// Checks authored stages before they are exported: bad data and traffic walls
+
+import { Dimensions } from './GameTypes';
+import { GameSimulation, MAX_HEADLESS_TICKS, TIME_STEP } from './GameSimulation';
+import { LaneBlock, hasSurvivablePath } from './TrafficPatterns';
+import { StageDefinition, parseStage } from './Stages';
+
+// Play field stages are checked on; a phone held upright
+export const VALIDATION_DIMENSIONS: Dimensions = { width: 400, height: 700 };
+
+// Something wrong with a stage
+export interface StageIssue {
+  at: number | null; // Metres along the track, null for the stage as a whole
+  message: string;
+}
+
+// Total seeds placed along a stage
+export function countStageSeeds(stage: StageDefinition): number {
+  return stage.seeds.reduce((total, line) => total + (line.count ?? 1), 0);
+}
+
+// Every problem found with the stage, empty when it is ready to play
+export function validateStage(data: unknown): StageIssue[] {
+  let stage: StageDefinition;
+  try {
+    stage = parseStage(data);
+  } catch (err) {
+    return [{ at: null, message: err instanceof Error ? err.message : 'Stage data is invalid' }];
+  }
+
+  const issues: StageIssue[] = [];
+
+  const totalSeeds = countStageSeeds(stage);
+  if (stage.stars.seeds > totalSeeds) {
+    issues.push({ at: null, message: `The seed star needs ${stage.stars.seeds} seeds but only ${totalSeeds} are placed` });
+  }
+
+  issues.push(...findTrafficIssues(stage));
+
+  return issues;
+}
+
+// Drive the stage with nobody on it and record when each lane is taken at the player's row,
+// reporting where the traffic first leaves no way through, and a finish too slow to ever reach
+function findTrafficIssues(stage: StageDefinition): StageIssue[] {
+  const simulation = new GameSimulation(VALIDATION_DIMENSIONS, {}, { stage, seed: stage.seed, spectator: true });
+  simulation.reset();
+
+  const world = simulation.getWorld();
+  const { player } = world;
+  const laneCount = simulation.getLayout().laneCount;
+  const startLane = player.lane;
+
+  const blocks: LaneBlock[] = [];
+  const takenSince: (number | null)[] = new Array(laneCount).fill(null);
+  const distances: { time: number; distance: number }[] = [];
+
+  while (!world.over && world.tick < MAX_HEADLESS_TICKS) {
+    simulation.step(TIME_STEP);
+    distances.push({ time: world.gameTime, distance: world.distance });
+
+    const taken = new Set<number>();
+    const onRow = (top: number, height: number) => top < player.y + player.height && top + height > player.y;
+    world.enemies.forEach(enemy => {
+      if (!onRow(enemy.y, enemy.height)) return;
+      taken.add(enemy.lane);
+      if (enemy.laneChange) {
+        taken.add(enemy.laneChange.from);
+        taken.add(enemy.laneChange.to);
+      }
+    });
+    world.hazards.forEach(hazard => {
+      if (hazard.kind === 'construction' && onRow(hazard.y, hazard.height)) {
+        taken.add(hazard.lane);
+      }
+    });
+
+    // A step either side, since the lane may have been taken at any point in between
+    for (let lane = 0; lane < laneCount; lane++) {
+      const since = takenSince[lane];
+      if (taken.has(lane) && since === null) {
+        takenSince[lane] = world.gameTime - TIME_STEP;
+      } else if (!taken.has(lane) && since !== null) {
+        blocks.push({ lane, start: since, end: world.gameTime + TIME_STEP });
+        takenSince[lane] = null;
+      }
+    }
+  }
+
+  const laneChangeTime = simulation.getLaneChangeTime();
+  const isSurvivable = (until: number) =>
+    hasSurvivablePath(
+      blocks
+        .filter(block => block.start < until)
+        .map(block => ({ ...block, end: Math.min(block.end, until) })),
+      laneCount,
+      startLane,
+      0,
+      laneChangeTime,
+      TIME_STEP * 4
+    );
+
+  const issues: StageIssue[] = [];
+  if (!world.over) {
+    issues.push({ at: world.distance, message: `The finish is too slow to reach; only ${Math.round(world.distance)}m was driven` });
+  }
+
+  if (isSurvivable(Infinity)) return issues;
+
+  // Narrow down the first moment the traffic can't be passed
+  let low = 0;
+  let high = world.gameTime;
+  while (high - low > TIME_STEP * 4) {
+    const middle = (low + high) / 2;
+    if (isSurvivable(middle)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const wall = (distances.find(sample => sample.time >= high) ?? distances[distances.length - 1]).distance;
+  issues.unshift({ at: wall, message: `No way through the traffic around ${Math.round(wall)}m` });
+  return issues;
+}
@@ -0,0 +1,157 @@
+// Campaign stages: finite authored tracks loaded from JSON
+
+import { HazardKind, PowerUpType, StageTheme } from './GameTypes';
+import { Keyframe, isKeyframeTrack } from './DifficultyCurve';
+import { HAZARD_TYPES } from './Hazards';
+import { ENEMY_ARCHETYPES } from './EnemyArchetypes';
+import { MAX_LANE_COUNT, MIN_LANE_COUNT } from './GameSimulation';
+import stage1 from './stages/1-first-drive.json';
+import stage2 from './stages/2-rush-hour.json';
+import stage3 from './stages/3-roadworks.json';
+import stage4 from './stages/4-dusk-convoy.json';
+import stage5 from './stages/5-night-run.json';
+
+// Positions along a stage are metres from the start; objects enter the top of the road there
+export interface StageTraffic {
+  at: number;
+  lane: number;
+  archetype?: string; // Defaults to a plain car
+  targetLane?: number; // Lane a lane changer moves to
+}
+
+// A line of seeds down one lane
+export interface StageSeeds {
+  at: number;
+  lane: number;
+  count?: number; // Defaults to 1
+  spacing?: number; // Metres between seeds, defaults to 10
+}
+
+export interface StagePowerUp {
+  at: number;
+  lane: number;
+  type: keyof typeof PowerUpType;
+}
+
+export interface StageHazard {
+  at: number;
+  lane: number;
+  kind: HazardKind;
+}
+
+// Finishing earns the first star; these earn the other two
+export interface StageStars {
+  seeds: number; // Seeds to collect
+  maxDamage: number; // Most crashes allowed
+}
+
+export interface StageDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  length: number; // Metres to the finish line
+  laneCount: number;
+  seed: number; // Seed for decorations and anything else random
+  theme: StageTheme;
+  speed: Keyframe[]; // Game speed by metres travelled, interpolated linearly
+  traffic: StageTraffic[];
+  seeds: StageSeeds[];
+  powerUps?: StagePowerUp[];
+  hazards?: StageHazard[];
+  stars: StageStars;
+}
+
+export const STAGE_THEMES: StageTheme[] = ['day', 'dusk', 'night'];
+
+// Slowest a stage may go; at a standstill the finish would never come
+export const MIN_STAGE_SPEED = 0.1;
+
+function isPlacedOnTrack(item: { at: unknown; lane: unknown }, stage: StageDefinition): boolean {
+  return (
+    typeof item.at === 'number' &&
+    item.at >= 0 &&
+    item.at < stage.length &&
+    Number.isInteger(item.lane) &&
+    (item.lane as number) >= 0 &&
+    (item.lane as number) < stage.laneCount
+  );
+}
+
+// Validate stage data loaded from JSON
+export function parseStage(data: unknown): StageDefinition {
+  const stage = data as StageDefinition;
+
+  if (!stage || typeof stage.id !== 'string' || typeof stage.name !== 'string') {
+    throw new Error('Stage is missing an id or name');
+  }
+
+  if (typeof stage.length !== 'number' || stage.length <= 0) {
+    throw new Error(`Stage "${stage.id}" has an invalid length`);
+  }
+
+  if (!Number.isInteger(stage.laneCount) || stage.laneCount < MIN_LANE_COUNT || stage.laneCount > MAX_LANE_COUNT) {
+    throw new Error(`Stage "${stage.id}" has an invalid lane count`);
+  }
+
+  if (typeof stage.seed !== 'number' || !STAGE_THEMES.includes(stage.theme)) {
+    throw new Error(`Stage "${stage.id}" has an invalid seed or theme`);
+  }
+
+  if (!isKeyframeTrack(stage.speed) || stage.speed.some(([, speed]) => speed < MIN_STAGE_SPEED)) {
+    throw new Error(`Stage "${stage.id}" has an invalid speed track`);
+  }
+
+  const archetypes = ENEMY_ARCHETYPES.map(archetype => archetype.id);
+  const trafficValid = Array.isArray(stage.traffic) && stage.traffic.every(car =>
+    isPlacedOnTrack(car, stage) &&
+    (car.archetype === undefined || archetypes.includes(car.archetype)) &&
+    (car.targetLane === undefined || Math.abs(car.targetLane - car.lane) === 1) &&
+    (car.targetLane === undefined || (car.targetLane >= 0 && car.targetLane < stage.laneCount))
+  );
+  if (!trafficValid) {
+    throw new Error(`Stage "${stage.id}" has invalid traffic`);
+  }
+
+  const seedsValid = Array.isArray(stage.seeds) && stage.seeds.every(line =>
+    isPlacedOnTrack(line, stage) &&
+    (line.count === undefined || (Number.isInteger(line.count) && line.count > 0)) &&
+    (line.spacing === undefined || (typeof line.spacing === 'number' && line.spacing > 0))
+  );
+  if (!seedsValid) {
+    throw new Error(`Stage "${stage.id}" has invalid seeds`);
+  }
+
+  const powerUpsValid = (stage.powerUps ?? []).every(powerUp =>
+    isPlacedOnTrack(powerUp, stage) && typeof PowerUpType[powerUp.type] === 'number'
+  );
+  if (!powerUpsValid) {
+    throw new Error(`Stage "${stage.id}" has invalid power-ups`);
+  }
+
+  const hazardKinds = HAZARD_TYPES.map(type => type.id);
+  const hazardsValid = (stage.hazards ?? []).every(hazard =>
+    isPlacedOnTrack(hazard, stage) && hazardKinds.includes(hazard.kind)
+  );
+  if (!hazardsValid) {
+    throw new Error(`Stage "${stage.id}" has invalid hazards`);
+  }
+
+  if (!stage.stars || typeof stage.stars.seeds !== 'number' || typeof stage.stars.maxDamage !== 'number') {
+    throw new Error(`Stage "${stage.id}" has invalid star targets`);
+  }
+
+  return stage;
+}
+
+// The campaign, in play order
+export const STAGES: StageDefinition[] = [
+  stage1,
+  stage2,
+  stage3,
+  stage4,
+  stage5
+].map(parseStage);
+
+export function getStage(id: string | null): StageDefinition | undefined {
+  return STAGES.find(stage => stage.id === id);
+}
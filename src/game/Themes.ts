@@ -0,0 +1,179 @@
+// Visual themes: colours, road texture, roadside decorations, ambient particles and lighting
+
+import type { StageTheme } from './GameTypes';
+
+export type ThemeId = 'day' | 'dusk' | 'night' | 'rain' | 'snow' | 'desert';
+
+// Things that can line the road; the simulation only decides where and how big
+export type DecorationKind = 'tree' | 'bush' | 'pine' | 'snowman' | 'cactus' | 'rock' | 'lamp';
+
+export type ParticleKind = 'rain' | 'snow' | 'dust';
+
+export interface ThemePalette {
+  sky: [string, string]; // Top and bottom of the gradient
+  stars: string | null; // No stars when null
+  verge: [string, string]; // Ground beside the road, at the screen edge and at the road
+  vergeTexture: string;
+  road: [string, string]; // Asphalt at the edges and down the middle
+  roadEdge: string;
+  laneMarking: string;
+}
+
+// Specks scattered over the road surface
+export interface RoadTexture {
+  color: string;
+  grid: number; // px between possible specks; must divide 20 so the road tiles seamlessly
+  size: number; // px
+  density: number; // Chance of a speck at each grid point
+}
+
+export interface ThemeParticles {
+  kind: ParticleKind;
+  count: number; // On screen at once
+  color: string;
+}
+
+export interface ThemeLighting {
+  ambient: string; // Laid over the whole scene, or only where no light reaches with headlights
+  lampGlow?: string; // Pool of light around street lamps
+  headlights?: boolean; // Dark road lit by the cars' own lights and the lamps
+}
+
+export interface VisualTheme {
+  id: ThemeId;
+  name: string;
+  palette: ThemePalette;
+  roadTexture: RoadTexture;
+  decorations: {
+    large: DecorationKind[]; // In place of trees
+    small: DecorationKind[]; // In place of bushes
+  };
+  particles?: ThemeParticles;
+  lighting?: ThemeLighting;
+}
+
+export const THEMES: VisualTheme[] = [
+  {
+    id: 'day',
+    name: 'Day',
+    palette: {
+      sky: ['#1a2b45', '#2d4b6e'],
+      stars: 'rgba(255, 255, 255, 0.5)',
+      verge: ['#1C3F1C', '#2A5A30'],
+      vergeTexture: 'rgba(0, 0, 0, 0.1)',
+      road: ['#333333', '#444444'],
+      roadEdge: '#f6f6a3',
+      laneMarking: '#fff'
+    },
+    roadTexture: { color: 'rgba(0, 0, 0, 0.2)', grid: 10, size: 2, density: 0.1 },
+    decorations: { large: ['tree'], small: ['bush'] }
+  },
+  {
+    id: 'dusk',
+    name: 'Dusk',
+    palette: {
+      sky: ['#3a2346', '#e0774a'],
+      stars: 'rgba(255, 255, 255, 0.3)',
+      verge: ['#1f3319', '#35502a'],
+      vergeTexture: 'rgba(0, 0, 0, 0.15)',
+      road: ['#2e2b2e', '#3d393b'],
+      roadEdge: '#f6d98a',
+      laneMarking: '#f4ece4'
+    },
+    roadTexture: { color: 'rgba(0, 0, 0, 0.2)', grid: 10, size: 2, density: 0.1 },
+    decorations: { large: ['tree', 'lamp'], small: ['bush'] },
+    lighting: { ambient: 'rgba(255, 120, 40, 0.12)', lampGlow: 'rgba(255, 214, 130, 0.2)' }
+  },
+  {
+    id: 'night',
+    name: 'Night',
+    palette: {
+      sky: ['#05070f', '#111a2e'],
+      stars: 'rgba(255, 255, 255, 0.8)',
+      verge: ['#0b1a10', '#16301c'],
+      vergeTexture: 'rgba(0, 0, 0, 0.2)',
+      road: ['#1f1f24', '#2a2a30'],
+      roadEdge: '#d9d98a',
+      laneMarking: '#e6e6e6'
+    },
+    roadTexture: { color: 'rgba(0, 0, 0, 0.25)', grid: 10, size: 2, density: 0.1 },
+    decorations: { large: ['tree', 'lamp'], small: ['bush'] },
+    lighting: { ambient: 'rgba(3, 6, 18, 0.92)', lampGlow: 'rgba(255, 214, 130, 0.35)', headlights: true }
+  },
+  {
+    id: 'rain',
+    name: 'Rain',
+    palette: {
+      sky: ['#2b3440', '#46525f'],
+      stars: null,
+      verge: ['#1d3322', '#2c4a32'],
+      vergeTexture: 'rgba(0, 0, 0, 0.12)',
+      road: ['#262a2e', '#363b40'],
+      roadEdge: '#e0e09a',
+      laneMarking: '#dfe6ea'
+    },
+    roadTexture: { color: 'rgba(160, 190, 220, 0.12)', grid: 10, size: 3, density: 0.12 },
+    decorations: { large: ['tree', 'lamp'], small: ['bush'] },
+    particles: { kind: 'rain', count: 80, color: 'rgba(174, 194, 224, 0.55)' },
+    lighting: { ambient: 'rgba(40, 50, 65, 0.25)', lampGlow: 'rgba(255, 225, 160, 0.25)' }
+  },
+  {
+    id: 'snow',
+    name: 'Snow',
+    palette: {
+      sky: ['#8fa3b8', '#c9d6e3'],
+      stars: null,
+      verge: ['#d7e1ea', '#eef3f7'],
+      vergeTexture: 'rgba(120, 140, 165, 0.15)',
+      road: ['#4a4f55', '#5b6168'],
+      roadEdge: '#f0c94a',
+      laneMarking: '#f4f7fa'
+    },
+    roadTexture: { color: 'rgba(255, 255, 255, 0.35)', grid: 5, size: 2, density: 0.08 },
+    decorations: { large: ['pine'], small: ['snowman', 'rock'] },
+    particles: { kind: 'snow', count: 60, color: 'rgba(255, 255, 255, 0.9)' },
+    lighting: { ambient: 'rgba(200, 220, 255, 0.08)' }
+  },
+  {
+    id: 'desert',
+    name: 'Desert',
+    palette: {
+      sky: ['#f2b56b', '#f7d9a0'],
+      stars: null,
+      verge: ['#c99a5b', '#e2bd7f'],
+      vergeTexture: 'rgba(120, 80, 30, 0.15)',
+      road: ['#5a4a3c', '#6b5a4a'],
+      roadEdge: '#f6f6a3',
+      laneMarking: '#f5ecd9'
+    },
+    roadTexture: { color: 'rgba(230, 190, 120, 0.25)', grid: 10, size: 3, density: 0.15 },
+    decorations: { large: ['cactus'], small: ['rock'] },
+    particles: { kind: 'dust', count: 30, color: 'rgba(226, 189, 127, 0.5)' },
+    lighting: { ambient: 'rgba(255, 170, 60, 0.08)' }
+  }
+];
+
+export const DEFAULT_THEME: ThemeId = 'day';
+
+// Theme each campaign stage's time of day is drawn in
+export const STAGE_THEME_IDS: Record<StageTheme, ThemeId> = {
+  day: 'day',
+  dusk: 'dusk',
+  night: 'night'
+};
+
+// Metres between theme changes when a run moves through the themes
+export const THEME_MILESTONE = 1000;
+
+export function getTheme(id: string | null | undefined): VisualTheme {
+  return THEMES.find(theme => theme.id === id) ?? THEMES[0];
+}
+
+// Theme in effect at a distance: the starting theme, moving on to the next at each milestone if cycling
+export function getThemeAt(start: ThemeId, cycle: boolean, distance: number): VisualTheme {
+  const index = THEMES.findIndex(theme => theme.id === start);
+  if (!cycle) return THEMES[Math.max(index, 0)];
+
+  const step = Math.floor(distance / THEME_MILESTONE);
+  return THEMES[(Math.max(index, 0) + step) % THEMES.length];
+}
@@ -0,0 +1,110 @@
+// Authored traffic formations and the check that a wave leaves a way through
+
+// One car of a formation: lane offset from the wave's base lane, ms after the wave starts
+export interface TrafficCar {
+  lane: number;
+  delay: number;
+}
+
+export interface TrafficPattern {
+  id: string;
+  cars: TrafficCar[];
+}
+
+export const TRAFFIC_PATTERNS: TrafficPattern[] = [
+  { id: 'single', cars: [{ lane: 0, delay: 0 }] },
+  { id: 'side-by-side', cars: [{ lane: 0, delay: 0 }, { lane: 1, delay: 0 }] },
+  { id: 'staggered-pair', cars: [{ lane: 0, delay: 0 }, { lane: 1, delay: 700 }] },
+  {
+    id: 'zigzag',
+    cars: [
+      { lane: 0, delay: 0 },
+      { lane: 1, delay: 600 },
+      { lane: 0, delay: 1200 },
+      { lane: 1, delay: 1800 }
+    ]
+  },
+  {
+    id: 'convoy',
+    cars: [
+      { lane: 0, delay: 0 },
+      { lane: 0, delay: 500 },
+      { lane: 0, delay: 1000 }
+    ]
+  },
+  {
+    id: 'staircase',
+    cars: [
+      { lane: 0, delay: 0 },
+      { lane: 1, delay: 500 },
+      { lane: 2, delay: 1000 }
+    ]
+  }
+];
+
+// Used when a difficulty curve doesn't weight the patterns itself
+export const DEFAULT_PATTERN_WEIGHTS: Record<string, number> = {
+  single: 1
+};
+
+// Number of lanes a pattern spans
+export function getPatternWidth(pattern: TrafficPattern): number {
+  return Math.max(...pattern.cars.map(car => car.lane)) + 1;
+}
+
+// Time window (ms from now) in which a lane is occupied at the player's row
+export interface LaneBlock {
+  lane: number;
+  start: number;
+  end: number;
+}
+
+// Search lane/time states for a way past every block. Changing lane takes
+// laneChangeTime and occupies both lanes until it completes.
+export function hasSurvivablePath(
+  blocks: LaneBlock[],
+  laneCount: number,
+  startLane: number,
+  startTime: number,
+  laneChangeTime: number,
+  resolution: number
+): boolean {
+  const horizon = Math.max(startTime, ...blocks.map(block => block.end));
+
+  const isFree = (lane: number, from: number, to: number) =>
+    !blocks.some(block => block.lane === lane && block.start < to && block.end > from);
+
+  const changeSteps = Math.max(1, Math.ceil(laneChangeTime / resolution));
+  const visited = new Set<string>();
+  const queue: [number, number][] = [[startLane, Math.ceil(startTime / resolution)]];
+
+  while (queue.length > 0) {
+    const [lane, step] = queue.shift();
+    const time = step * resolution;
+    if (time >= horizon) return true;
+
+    const key = `${lane}:${step}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    // Stay in the current lane
+    if (isFree(lane, time, time + resolution)) {
+      queue.push([lane, step + 1]);
+    }
+
+    // Change to an adjacent lane
+    const changeEnd = time + changeSteps * resolution;
+    [lane - 1, lane + 1].forEach(target => {
+      if (
+        target >= 0 &&
+        target < laneCount &&
+        isFree(lane, time, changeEnd) &&
+        isFree(target, time, changeEnd)
+      ) {
+        queue.push([target, step + changeSteps]);
+      }
+    });
+  }
+
+  return false;
+}
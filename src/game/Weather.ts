@@ -0,0 +1,100 @@
+// Weather that drifts in and out over an endless run, changing how the road plays
+
+import { WeatherKind, WeatherState } from './GameTypes';
+import type { ThemeParticles } from './Themes';
+
+export interface WeatherType {
+  id: WeatherKind;
+  name: string;
+  description: string; // Announced in the HUD as the weather moves in
+  visibility: number; // Fraction of the play field ahead of the player where cars can be seen
+  laneChangeSlide: number; // Lane widths a lane change carries the car past its lane before it settles
+  topSpeed: number | null; // Highest game speed allowed; null for no limit
+  weight: number; // Chance of coming in after a clear spell, relative to the others
+  particles?: ThemeParticles;
+  fog?: [number, number, number]; // RGB of the haze over the road ahead
+}
+
+export const WEATHER_TYPES: WeatherType[] = [
+  {
+    id: 'clear',
+    name: 'Clear',
+    description: 'The road clears up',
+    visibility: 1,
+    laneChangeSlide: 0,
+    topSpeed: null,
+    weight: 0
+  },
+  {
+    id: 'rain',
+    name: 'Rain',
+    description: 'Wet road: lane changes slide further',
+    visibility: 1,
+    laneChangeSlide: 0.3,
+    topSpeed: null,
+    weight: 1,
+    particles: { kind: 'rain', count: 120, color: 'rgba(174, 194, 224, 0.6)' }
+  },
+  {
+    id: 'fog',
+    name: 'Fog',
+    description: 'Traffic appears late',
+    visibility: 0.45,
+    laneChangeSlide: 0,
+    topSpeed: null,
+    weight: 1,
+    fog: [196, 204, 212]
+  },
+  {
+    id: 'snow',
+    name: 'Snow',
+    description: 'Icy road: top speed is lower',
+    visibility: 1,
+    laneChangeSlide: 0.1,
+    topSpeed: 1.5,
+    weight: 1,
+    particles: { kind: 'snow', count: 90, color: 'rgba(255, 255, 255, 0.9)' }
+  }
+];
+
+// Metres each spell of weather lasts, clear or not
+export const WEATHER_SPELL = { min: 400, max: 800 };
+
+// Metres over which one weather fades into the next
+export const WEATHER_TRANSITION = 150;
+
+// Mixed into the run seed so the weather has its own random stream and leaves the traffic alone
+export const WEATHER_SEED_SALT = 0x7ea7;
+
+export function getWeatherType(id: WeatherKind): WeatherType {
+  return WEATHER_TYPES.find(type => type.id === id) ?? WEATHER_TYPES[0];
+}
+
+// Weather to follow the current one: clear after any weather, otherwise a weighted pick
+export function pickWeather(roll: number, current: WeatherKind): WeatherKind {
+  if (current !== 'clear') return 'clear';
+
+  const candidates = WEATHER_TYPES.filter(type => type.weight > 0);
+  const total = candidates.reduce((sum, type) => sum + type.weight, 0);
+  let target = roll * total;
+  for (const type of candidates) {
+    target -= type.weight;
+    if (target < 0) return type.id;
+  }
+  return candidates[candidates.length - 1].id;
+}
+
+// A weather value part way through a change, eased linearly from the old weather to the new
+export function blendWeather(state: WeatherState | null, value: (type: WeatherType) => number): number {
+  const from = value(getWeatherType(state?.kind ?? 'clear'));
+  if (!state?.next) return from;
+  return from + (value(getWeatherType(state.next)) - from) * state.blend;
+}
+
+// How strongly a weather is showing: fully when settled, fading in or out during a change
+export function getWeatherIntensity(state: WeatherState | null, id: WeatherKind): number {
+  if (!state) return id === 'clear' ? 1 : 0;
+  if (id === state.next) return state.blend;
+  if (id === state.kind) return state.next ? 1 - state.blend : 1;
+  return 0;
+}
@@ -0,0 +1,584 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EditorList, EditorSelection, EditorTimeline } from '@/components/EditorTimeline';
+import { StagePreview } from '@/components/StagePreview';
+import { PowerUpIcon } from '@/components/PowerUpIcon';
+import { HazardKind, PowerUpType } from '@/game/GameTypes';
+import { MAX_LANE_COUNT, MIN_LANE_COUNT } from '@/game/GameSimulation';
+import { ENEMY_ARCHETYPES } from '@/game/EnemyArchetypes';
+import { HAZARD_TYPES } from '@/game/Hazards';
+import { getPowerUp, getPowerUps } from '@/game/PowerUps';
+import { MIN_STAGE_SPEED, STAGE_THEMES, StageDefinition, StageHazard, StagePowerUp, StageSeeds, StageTraffic, parseStage } from '@/game/Stages';
+import { StageIssue, countStageSeeds, validateStage } from '@/game/StageValidation';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, FilePlus, ShieldCheck, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const DRAFT_KEY = 'editorStage';
+const MIN_STAGE_LENGTH = 100; // m
+
+// What a click on the timeline puts down
+type EditorTool =
+  | { kind: 'traffic'; archetype: string; turn?: -1 | 1 }
+  | { kind: 'seeds' }
+  | { kind: 'powerUp'; type: keyof typeof PowerUpType }
+  | { kind: 'hazard'; hazard: HazardKind };
+
+type EditorItem = StageTraffic | StageSeeds | StagePowerUp | StageHazard;
+
+interface PaletteEntry {
+  id: string;
+  label: string;
+  tool: EditorTool;
+}
+
+// Lane changers come in both directions
+const PALETTE: PaletteEntry[] = [
+  ...ENEMY_ARCHETYPES.flatMap((archetype): PaletteEntry[] =>
+    archetype.changesLane
+      ? [
+          { id: `${archetype.id}-left`, label: `${archetype.id} ←`, tool: { kind: 'traffic', archetype: archetype.id, turn: -1 } },
+          { id: `${archetype.id}-right`, label: `${archetype.id} →`, tool: { kind: 'traffic', archetype: archetype.id, turn: 1 } }
+        ]
+      : [{ id: archetype.id, label: archetype.id, tool: { kind: 'traffic', archetype: archetype.id } }]
+  ),
+  { id: 'seeds', label: 'seeds', tool: { kind: 'seeds' } },
+  ...getPowerUps().map((definition): PaletteEntry => ({
+    id: `powerUp-${definition.type}`,
+    label: definition.hud.name,
+    tool: { kind: 'powerUp', type: PowerUpType[definition.type] as keyof typeof PowerUpType }
+  })),
+  ...HAZARD_TYPES.map((type): PaletteEntry => ({
+    id: `hazard-${type.id}`,
+    label: type.id,
+    tool: { kind: 'hazard', hazard: type.id }
+  }))
+];
+
+// Name of a placed object, for the inspector
+const describeItem = (list: EditorList, item: EditorItem): string => {
+  switch (list) {
+    case 'traffic':
+      return (item as StageTraffic).archetype ?? 'car';
+    case 'seeds':
+      return `${(item as StageSeeds).count ?? 1} seeds`;
+    case 'powerUps':
+      return getPowerUp(PowerUpType[(item as StagePowerUp).type])?.hud.name ?? 'power-up';
+    case 'hazards':
+      return (item as StageHazard).kind;
+  }
+};
+
+const createBlankStage = (): StageDefinition => ({
+  id: 'custom-stage',
+  name: 'Custom Stage',
+  description: '',
+  length: 1000,
+  laneCount: 3,
+  seed: 1,
+  theme: 'day',
+  speed: [[0, 1.2], [1000, 1.4]],
+  traffic: [],
+  seeds: [],
+  powerUps: [],
+  hazards: [],
+  stars: { seeds: 0, maxDamage: 1 }
+});
+
+// Pick up the stage from the last session, if it still loads
+const loadDraft = (): StageDefinition => {
+  try {
+    const saved = localStorage.getItem(DRAFT_KEY);
+    return saved ? parseStage(JSON.parse(saved)) : createBlankStage();
+  } catch (err) {
+    console.error("Error loading editor draft:", err);
+    return createBlankStage();
+  }
+};
+
+const EditorPage: React.FC = () => {
+  const [stage, setStage] = useState<StageDefinition>(loadDraft);
+  const [toolId, setToolId] = useState<string>(PALETTE[0].id);
+  const [seedCount, setSeedCount] = useState<number>(5);
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [previewFrom, setPreviewFrom] = useState<number>(0);
+  const [issues, setIssues] = useState<StageIssue[] | null>(null);
+  const [focus, setFocus] = useState<{ at: number } | null>(null);
+  const [lengthDraft, setLengthDraft] = useState<string>(() => stage.length.toString());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(stage));
+  }, [stage]);
+
+  // Show the length of a stage that was loaded or trimmed
+  useEffect(() => {
+    setLengthDraft(stage.length.toString());
+  }, [stage.length]);
+
+  const updateStage = (changes: Partial<StageDefinition>) => {
+    setStage(prev => ({ ...prev, ...changes }));
+  };
+
+  const getItems = (list: EditorList): EditorItem[] => stage[list] ?? [];
+
+  const setItems = (list: EditorList, items: EditorItem[]) => {
+    updateStage({ [list]: items } as Partial<StageDefinition>);
+  };
+
+  const handlePlace = (lane: number, at: number) => {
+    const tool = PALETTE.find(entry => entry.id === toolId)?.tool;
+    if (!tool) return;
+
+    let list: EditorList;
+    let item: EditorItem;
+    switch (tool.kind) {
+      case 'traffic': {
+        const targetLane = tool.turn !== undefined ? lane + tool.turn : undefined;
+        if (targetLane !== undefined && (targetLane < 0 || targetLane >= stage.laneCount)) {
+          toast.error('No lane to change into on that side');
+          return;
+        }
+        list = 'traffic';
+        item = {
+          at,
+          lane,
+          ...(tool.archetype !== 'car' && { archetype: tool.archetype }),
+          ...(targetLane !== undefined && { targetLane })
+        };
+        break;
+      }
+      case 'seeds':
+        list = 'seeds';
+        item = { at, lane, ...(seedCount > 1 && { count: seedCount }) };
+        break;
+      case 'powerUp':
+        list = 'powerUps';
+        item = { at, lane, type: tool.type };
+        break;
+      case 'hazard':
+        list = 'hazards';
+        item = { at, lane, kind: tool.hazard };
+        break;
+    }
+
+    const items = getItems(list);
+    setItems(list, [...items, item]);
+    setSelection({ list, index: items.length });
+  };
+
+  const selectedItem = selection ? getItems(selection.list)[selection.index] : undefined;
+
+  const handleMoveSelected = (at: number) => {
+    if (!selection || Number.isNaN(at)) return;
+    setItems(
+      selection.list,
+      getItems(selection.list).map((item, index) => (index === selection.index ? { ...item, at } : item))
+    );
+  };
+
+  const handleDeleteSelected = () => {
+    if (!selection) return;
+    setItems(selection.list, getItems(selection.list).filter((_, index) => index !== selection.index));
+    setSelection(null);
+  };
+
+  // Delete the selected object from the keyboard, unless a field is being typed in
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        handleDeleteSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Objects past the end or off the road would no longer load
+  const trimStage = (changes: Partial<StageDefinition>) => {
+    setStage(prev => {
+      const next = { ...prev, ...changes };
+      const fits = (item: { at: number; lane: number; targetLane?: number }) =>
+        item.at < next.length &&
+        item.lane < next.laneCount &&
+        (item.targetLane === undefined || item.targetLane < next.laneCount);
+      return {
+        ...next,
+        traffic: next.traffic.filter(fits),
+        seeds: next.seeds.filter(fits),
+        powerUps: (next.powerUps ?? []).filter(fits),
+        hazards: (next.hazards ?? []).filter(fits)
+      };
+    });
+    setSelection(null);
+  };
+
+  // Only applied once typing is done, since shortening the track drops what's past the end
+  const handleLengthCommit = () => {
+    const parsed = Math.round(Number(lengthDraft));
+    if (Number.isNaN(parsed)) {
+      setLengthDraft(stage.length.toString());
+      return;
+    }
+
+    const length = Math.max(MIN_STAGE_LENGTH, parsed);
+    setLengthDraft(length.toString());
+    trimStage({
+      length,
+      speed: [[0, stage.speed[0][1]], [length, stage.speed[stage.speed.length - 1][1]]]
+    });
+  };
+
+  const handleSpeedChange = (index: 0 | 1, input: number) => {
+    if (Number.isNaN(input)) return;
+    const value = Math.max(MIN_STAGE_SPEED, input);
+    const start = index === 0 ? value : stage.speed[0][1];
+    const finish = index === 1 ? value : stage.speed[stage.speed.length - 1][1];
+    updateStage({ speed: [[0, start], [stage.length, finish]] });
+  };
+
+  const handleValidate = () => {
+    const found = validateStage(stage);
+    setIssues(found);
+    if (found.length === 0) {
+      toast.success('Stage is ready to play');
+    }
+    return found;
+  };
+
+  const handleExport = () => {
+    if (handleValidate().length > 0) {
+      toast.error('Fix the problems before exporting');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(stage, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${stage.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseStage(JSON.parse(await file.text()));
+      setStage(imported);
+      setSelection(null);
+      setPreviewFrom(0);
+      setIssues(validateStage(imported));
+      toast.success(`Loaded ${imported.name}`);
+    } catch (err) {
+      console.error("Error importing stage:", err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load stage');
+    }
+  };
+
+  const handleNew = () => {
+    setStage(createBlankStage());
+    setSelection(null);
+    setPreviewFrom(0);
+    setIssues(null);
+  };
+
+  const headerButton = "text-gray-300 hover:text-white hover:bg-gray-800/30";
+  const fieldClass = "bg-black/30 border-zinc-700 text-white text-sm h-8";
+
+  return (
+    <div className="h-screen flex flex-col bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] text-white overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-[#91d3d1]/20">
+        <div className="flex items-center space-x-2">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/')} className={headerButton}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Button>
+          <h1 className="text-lg font-bold text-gradient">Level Editor</h1>
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={handleNew} className={headerButton}>
+            <FilePlus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className={headerButton}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleValidate} className={headerButton}>
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            Validate
+          </Button>
+          <Button variant="teal" size="sm" onClick={handleExport} className="rounded-lg">
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex gap-4 p-4">
+        <div className="w-72 shrink-0 overflow-y-auto space-y-4 pr-1">
+          <div className="glassmorphism rounded-xl p-3 border border-[#91d3d1]/20 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="stage-name" className="text-xs text-gray-400">Name</Label>
+                <Input id="stage-name" className={fieldClass} value={stage.name} onChange={(e) => updateStage({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="stage-id" className="text-xs text-gray-400">Id</Label>
+                <Input id="stage-id" className={fieldClass} value={stage.id} onChange={(e) => updateStage({ id: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stage-description" className="text-xs text-gray-400">Description</Label>
+              <Input
+                id="stage-description"
+                className={fieldClass}
+                value={stage.description ?? ''}
+                onChange={(e) => updateStage({ description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="stage-length" className="text-xs text-gray-400">Length (m)</Label>
+                <Input
+                  id="stage-length"
+                  type="number"
+                  min={MIN_STAGE_LENGTH}
+                  step={50}
+                  className={fieldClass}
+                  value={lengthDraft}
+                  onChange={(e) => setLengthDraft(e.target.value)}
+                  onBlur={handleLengthCommit}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLengthCommit()}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="stage-seed" className="text-xs text-gray-400">Seed</Label>
+                <Input
+                  id="stage-seed"
+                  type="number"
+                  className={fieldClass}
+                  value={stage.seed}
+                  onChange={(e) => !Number.isNaN(e.target.valueAsNumber) && updateStage({ seed: e.target.valueAsNumber })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="stage-start-speed" className="text-xs text-gray-400">Start speed</Label>
+                <Input
+                  id="stage-start-speed"
+                  type="number"
+                  min={MIN_STAGE_SPEED}
+                  step={0.1}
+                  className={fieldClass}
+                  value={stage.speed[0][1]}
+                  onChange={(e) => handleSpeedChange(0, e.target.valueAsNumber)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="stage-finish-speed" className="text-xs text-gray-400">Finish speed</Label>
+                <Input
+                  id="stage-finish-speed"
+                  type="number"
+                  min={MIN_STAGE_SPEED}
+                  step={0.1}
+                  className={fieldClass}
+                  value={stage.speed[stage.speed.length - 1][1]}
+                  onChange={(e) => handleSpeedChange(1, e.target.valueAsNumber)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-400">Lanes</Label>
+              <div className="grid grid-cols-5 gap-1">
+                {Array.from({ length: MAX_LANE_COUNT - MIN_LANE_COUNT + 1 }, (_, i) => MIN_LANE_COUNT + i).map(count => (
+                  <Button
+                    key={count}
+                    variant="teal-outline"
+                    size="sm"
+                    className={cn("rounded-lg px-1 h-7", stage.laneCount === count && "bg-[#91d3d1]/20")}
+                    onClick={() => trimStage({ laneCount: count })}
+                  >
+                    {count}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-400">Theme</Label>
+              <div className="grid grid-cols-3 gap-1">
+                {STAGE_THEMES.map(theme => (
+                  <Button
+                    key={theme}
+                    variant="teal-outline"
+                    size="sm"
+                    className={cn("rounded-lg px-1 h-7 capitalize", stage.theme === theme && "bg-[#91d3d1]/20")}
+                    onClick={() => updateStage({ theme })}
+                  >
+                    {theme}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="stage-star-seeds" className="text-xs text-gray-400">
+                  Star seeds (of {countStageSeeds(stage)})
+                </Label>
+                <Input
+                  id="stage-star-seeds"
+                  type="number"
+                  min={0}
+                  className={fieldClass}
+                  value={stage.stars.seeds}
+                  onChange={(e) =>
+                    !Number.isNaN(e.target.valueAsNumber) &&
+                    updateStage({ stars: { ...stage.stars, seeds: e.target.valueAsNumber } })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="stage-star-damage" className="text-xs text-gray-400">Star max hits</Label>
+                <Input
+                  id="stage-star-damage"
+                  type="number"
+                  min={0}
+                  className={fieldClass}
+                  value={stage.stars.maxDamage}
+                  onChange={(e) =>
+                    !Number.isNaN(e.target.valueAsNumber) &&
+                    updateStage({ stars: { ...stage.stars, maxDamage: e.target.valueAsNumber } })
+                  }
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="glassmorphism rounded-xl p-3 border border-[#91d3d1]/20 space-y-2">
+            <p className="text-xs text-gray-400">Click a lane on the timeline to place</p>
+            <div className="grid grid-cols-2 gap-1">
+              {PALETTE.map(entry => (
+                <Button
+                  key={entry.id}
+                  variant="teal-outline"
+                  size="sm"
+                  className={cn("rounded-lg h-7 px-2 justify-start capitalize", toolId === entry.id && "bg-[#91d3d1]/20")}
+                  onClick={() => setToolId(entry.id)}
+                >
+                  {entry.tool.kind === 'powerUp' && (
+                    <PowerUpIcon type={PowerUpType[entry.tool.type]} size={12} className="mr-1" />
+                  )}
+                  <span className="truncate">{entry.label}</span>
+                </Button>
+              ))}
+            </div>
+            {toolId === 'seeds' && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="seed-count" className="text-xs text-gray-400 whitespace-nowrap">Seeds in a line</Label>
+                <Input
+                  id="seed-count"
+                  type="number"
+                  min={1}
+                  className={fieldClass}
+                  value={seedCount}
+                  onChange={(e) => setSeedCount(Math.max(1, e.target.valueAsNumber || 1))}
+                />
+              </div>
+            )}
+          </div>
+
+          {selection && selectedItem && (
+            <div className="glassmorphism rounded-xl p-3 border border-[#91d3d1]/20 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="capitalize">{describeItem(selection.list, selectedItem)}</span>
+                <span className="text-xs text-gray-400">Lane {selectedItem.lane + 1}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="item-at" className="text-xs text-gray-400">At (m)</Label>
+                <Input
+                  id="item-at"
+                  type="number"
+                  min={0}
+                  max={stage.length - 1}
+                  className={fieldClass}
+                  value={selectedItem.at}
+                  onChange={(e) => handleMoveSelected(e.target.valueAsNumber)}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-red-400 hover:bg-red-500/10"
+                  onClick={handleDeleteSelected}
+                  aria-label="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="shrink-0 min-h-0">
+          <EditorTimeline
+            stage={stage}
+            selection={selection}
+            previewFrom={previewFrom}
+            issues={issues ?? []}
+            focus={focus}
+            onPlace={handlePlace}
+            onSelect={setSelection}
+            onPreviewFromChange={setPreviewFrom}
+          />
+        </div>
+
+        <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+          <StagePreview stage={stage} from={previewFrom} />
+          <p className="text-xs text-gray-400 max-w-[300px]">Click the distance ruler to choose where the preview starts.</p>
+
+          {issues && (
+            <div className="glassmorphism rounded-xl p-3 border border-[#91d3d1]/20 space-y-2 max-w-[300px]">
+              {issues.length === 0 ? (
+                <div className="flex items-center text-sm text-[#91d3d1]">
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  No problems found
+                </div>
+              ) : (
+                issues.map((issue, index) => (
+                  <button
+                    key={index}
+                    className="w-full flex items-start text-left text-sm text-red-300 hover:text-red-200"
+                    onClick={() => issue.at !== null && setFocus({ at: issue.at })}
+                  >
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                    {issue.message}
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditorPage;
@@ -0,0 +1,123 @@
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ReplayViewer } from '@/components/ReplayViewer';
+import { Replay, decodeReplay, tryDecodeReplay } from '@/game/Replay';
+import { ArrowLeft, Film, Smartphone, Upload } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { toast } from 'sonner';
+
+// Load the replay of the player's most recent run, if there is one
+const loadLastReplay = (): Replay | null => tryDecodeReplay(localStorage.getItem('lastReplay'));
+
+const ReplayPage: React.FC = () => {
+  const [replay, setReplay] = useState<Replay | null>(loadLastReplay);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+
+  const handleGoBack = () => {
+    navigate('/');
+  };
+
+  const handleImportClick = () => {
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setReplay(decodeReplay(await file.text()));
+      toast.success('Replay loaded');
+    } catch (err) {
+      console.error("Error importing replay:", err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load replay');
+    }
+  };
+
+  const content = (
+    <div className="w-full h-full flex flex-col bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] relative">
+      <div className="flex items-center justify-between p-2 z-20">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleGoBack}
+          className="text-gray-300 hover:text-white hover:bg-gray-800/30 focus:bg-gray-800/30 focus:text-white active:bg-gray-800/50 focus:ring-0 focus:ring-offset-0 transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          <span className="text-sm">Back</span>
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleImportClick}
+          className="text-[#91d3d1] hover:bg-gray-800/30"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          <span className="text-sm">Import</span>
+        </Button>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+      </div>
+
+      {replay ? (
+        <div className="flex-1 min-h-0">
+          <ReplayViewer replay={replay} />
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+          <Film className="w-12 h-12 text-[#91d3d1]/40 mb-4" />
+          <h1 className="text-2xl font-bold mb-2 text-gradient">No Replay</h1>
+          <p className="text-gray-400 text-sm mb-6">Finish a run or import a replay file to watch it here.</p>
+          <Button variant="teal-outline" className="rounded-xl" onClick={handleImportClick}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import Replay
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0b131e] via-[#172637] to-[#1f3a57] text-white overflow-hidden">
+      <div className="absolute inset-0 bg-[#91d3d1]/5 mix-blend-overlay pointer-events-none"></div>
+
+      <div className="container mx-auto px-4 py-8 flex flex-col items-center justify-center h-screen">
+        {isMobile ? (
+          <div className="w-full h-full">
+            {content}
+          </div>
+        ) : (
+          <div className="mobile-frame-container flex flex-col items-center justify-center">
+            <div className="mobile-frame shadow-[0_0_40px_5px_rgba(255,255,255,0.15)]">
+              <div className="notch"></div>
+              <div className="side-button left-button"></div>
+              <div className="side-button right-button-top"></div>
+              <div className="side-button right-button-bottom"></div>
+              <div className="mobile-screen flex items-center justify-center">
+                {content}
+              </div>
+              <div className="home-indicator"></div>
+            </div>
+            <div className="mt-6 flex items-center justify-center text-[#91d3d1]/70 text-sm">
+              <Smartphone className="w-4 h-4 mr-2" />
+              <span>SuperSeed Lane Runner</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPage;
@@ -140,6 +140,11 @@ export default {
 				'road-scroll': {
 					'0%': { backgroundPosition: '0 0' },
 					'100%': { backgroundPosition: '0 100%' }
+				},
+				'float-up': {
+					'0%': { opacity: '0', transform: 'translateY(0) scale(0.9)' },
+					'15%': { opacity: '1', transform: 'translateY(-5px) scale(1)' },
+					'100%': { opacity: '0', transform: 'translateY(-40px) scale(1)' }
 				}
 			},
 			animation: {
@@ -155,7 +160,8 @@ export default {
 				'bounce-subtle': 'bounce-subtle 2s ease-in-out infinite',
 				'float': 'float 3s ease-in-out infinite',
 				'glow': 'glow 1.5s ease-in-out infinite',
-				'road-scroll': 'road-scroll 20s linear infinite'
+				'road-scroll': 'road-scroll 20s linear infinite',
+				'float-up': 'float-up 0.9s ease-out forwards'
 			}
 		}
 	},